@@ -1,55 +1,65 @@
-import { useAuth } from './contexts/AuthContext';
-import { useLocation } from './hooks/useNavigate';
-import Login from './pages/Login';
-import Register from './pages/Register';
-import Dashboard from './pages/Dashboard';
-import Products from './pages/Products';
-import Categories from './pages/Categories';
-import StockTransactions from './pages/StockTransactions';
-import Users from './pages/Users';
+import { lazy, Suspense } from 'react';
+import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom';
+import { APP_ROUTES } from './routes';
+import { GuestOnly, RequireAuth, RequireRole } from './components/RouteGuards';
 import Layout from './components/Layout';
 
-function App() {
-  const { user, loading } = useAuth();
-  const location = useLocation();
-
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-slate-100 flex items-center justify-center">
-        <div className="text-slate-600">Loading...</div>
-      </div>
-    );
-  }
-
-  if (!user) {
-    if (location === '/register') {
-      return <Register />;
-    }
-    return <Login />;
-  }
+const Login = lazy(() => import('./pages/Login'));
+const Register = lazy(() => import('./pages/Register'));
+const NotFound = lazy(() => import('./pages/NotFound'));
 
-  let page;
-  switch (location) {
-    case '/dashboard':
-      page = <Dashboard />;
-      break;
-    case '/products':
-      page = <Products />;
-      break;
-    case '/categories':
-      page = <Categories />;
-      break;
-    case '/stock':
-      page = <StockTransactions />;
-      break;
-    case '/users':
-      page = <Users />;
-      break;
-    default:
-      page = <Dashboard />;
-  }
-
-  return <Layout>{page}</Layout>;
+function App() {
+  return (
+    <BrowserRouter>
+      <Suspense
+        fallback={
+          <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+            <div className="text-slate-600">Loading...</div>
+          </div>
+        }
+      >
+        <Routes>
+          <Route
+            path="/login"
+            element={
+              <GuestOnly>
+                <Login />
+              </GuestOnly>
+            }
+          />
+          <Route
+            path="/register"
+            element={
+              <GuestOnly>
+                <Register />
+              </GuestOnly>
+            }
+          />
+          <Route
+            element={
+              <RequireAuth>
+                <Layout />
+              </RequireAuth>
+            }
+          >
+            <Route index element={<Navigate to="/dashboard" replace />} />
+            {APP_ROUTES.map(({ path, page: Page, roles }) => (
+              <Route
+                key={path}
+                path={path}
+                element={
+                  <RequireRole roles={roles}>
+                    <Page />
+                  </RequireRole>
+                }
+              />
+            ))}
+            <Route path="*" element={<NotFound />} />
+          </Route>
+        </Routes>
+      </Suspense>
+    </BrowserRouter>
+  );
 }
 
 export default App;
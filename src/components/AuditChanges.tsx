@@ -0,0 +1,52 @@
+import { formatAuditValue, formatFieldName, getAuditChanges } from '../lib/audit';
+import { AuditAction, AuditLogEntry } from '../types/database';
+
+interface AuditChangesProps {
+  entry: AuditLogEntry;
+  categoryNames: Map<string, string>;
+}
+
+export default function AuditChanges({ entry, categoryNames }: AuditChangesProps) {
+  return (
+    <dl className="space-y-1">
+      {getAuditChanges(entry).map(({ field, before, after }) => (
+        <div key={field} className="flex flex-wrap gap-x-2 text-xs">
+          <dt className="font-medium text-slate-700">{formatFieldName(field)}:</dt>
+          <dd className="text-slate-600">
+            {entry.action === 'UPDATE' && (
+              <>
+                <span className="line-through text-red-600">
+                  {formatAuditValue(field, before, categoryNames)}
+                </span>{' '}
+                →{' '}
+              </>
+            )}
+            <span className={entry.action === 'DELETE' ? 'text-red-600' : 'text-green-700'}>
+              {formatAuditValue(field, entry.action === 'DELETE' ? before : after, categoryNames)}
+            </span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+export function AuditActionBadge({ action }: { action: AuditAction }) {
+  const colors = {
+    INSERT: 'bg-green-100 text-green-800',
+    UPDATE: 'bg-blue-100 text-blue-800',
+    DELETE: 'bg-red-100 text-red-800',
+  };
+
+  const labels = {
+    INSERT: 'Created',
+    UPDATE: 'Updated',
+    DELETE: 'Deleted',
+  };
+
+  return (
+    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${colors[action]}`}>
+      {labels[action]}
+    </span>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { AUDIT_TABLE_LABELS, getRecordLabel } from '../lib/audit';
+import { AuditLogEntryWithActor } from '../types/database';
+import AuditChanges, { AuditActionBadge } from './AuditChanges';
+
+interface AuditHistoryModalProps {
+  entry: AuditLogEntryWithActor;
+  categoryNames: Map<string, string>;
+  onClose: () => void;
+}
+
+export default function AuditHistoryModal({ entry, categoryNames, onClose }: AuditHistoryModalProps) {
+  const [history, setHistory] = useState<AuditLogEntryWithActor[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory(entry.table_name, entry.record_id);
+  }, [entry.table_name, entry.record_id]);
+
+  const loadHistory = async (tableName: string, recordId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('*, profiles(name)')
+        .eq('table_name', tableName)
+        .eq('record_id', recordId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setHistory(data || []);
+    } catch (error) {
+      console.error('Error loading record history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">{getRecordLabel(entry)}</h2>
+            <p className="text-sm text-slate-500">{AUDIT_TABLE_LABELS[entry.table_name]} history</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {loading ? (
+            <p className="text-slate-600">Loading history...</p>
+          ) : (
+            <ol className="space-y-4">
+              {history.map((item) => (
+                <li key={item.id} className="border border-slate-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between gap-3 mb-3">
+                    <div className="flex items-center gap-3">
+                      <AuditActionBadge action={item.action} />
+                      <span className="text-sm text-slate-700">{item.profiles?.name ?? 'System'}</span>
+                    </div>
+                    <span className="text-sm text-slate-500">
+                      {new Date(item.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <AuditChanges entry={item} categoryNames={categoryNames} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
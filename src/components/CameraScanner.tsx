@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { createBarcodeDetector } from '../lib/barcodes';
+
+interface CameraScannerProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+export default function CameraScanner({ onDetected, onClose }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  });
+
+  useEffect(() => {
+    const detector = createBarcodeDetector();
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    if (!detector) {
+      setError("This browser can't read barcodes from the camera. Use a handheld scanner or type the code.");
+      return;
+    }
+
+    // Each scan is scheduled once the previous one has finished, so slow frames never overlap
+    const scan = async () => {
+      if (stopped || !videoRef.current) return;
+
+      try {
+        const [barcode] = await detector.detect(videoRef.current);
+        if (barcode && !stopped) {
+          stopped = true;
+          onDetectedRef.current(barcode.rawValue);
+          return;
+        }
+      } catch {
+        // The frame wasn't ready; try the next one
+      }
+
+      if (!stopped) {
+        timer = window.setTimeout(scan, 300);
+      }
+    };
+
+    const start = async () => {
+      try {
+        const media = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+        });
+
+        // Closed while the permission prompt was open
+        if (stopped || !videoRef.current) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        stream = media;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        scan();
+      } catch (err) {
+        if (!stopped) {
+          setError(err instanceof Error ? err.message : 'Could not open the camera');
+        }
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold text-slate-900">Scan Barcode</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {error ? (
+          <div className="m-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        ) : (
+          <div className="relative bg-black">
+            <video ref={videoRef} muted playsInline className="w-full aspect-video object-cover" />
+            <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-24 border-2 border-white/80 rounded-lg" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
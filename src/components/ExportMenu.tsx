@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat, ExportRow, exportRows } from '../lib/spreadsheets';
+
+interface ExportMenuProps {
+  name: string;
+  getRows: () => ExportRow[] | Promise<ExportRow[]>;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'json', label: 'JSON' },
+];
+
+export default function ExportMenu({ name, getRows }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+
+    try {
+      await exportRows(await getRows(), name, format);
+    } catch (error) {
+      console.error('Error exporting rows:', error);
+      alert('Failed to export');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 bg-white rounded-lg hover:bg-slate-50 transition"
+      >
+        <Download className="w-5 h-5" />
+        Export
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-44 bg-white border border-slate-200 rounded-lg shadow-lg py-1 z-20">
+            {FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 transition"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
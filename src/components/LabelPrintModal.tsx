@@ -0,0 +1,300 @@
+import { useEffect, useRef, useState } from 'react';
+import { X, Printer, Download } from 'lucide-react';
+import JsBarcode from 'jsbarcode';
+import QRCode from 'qrcode';
+import {
+  getBarcodeValue,
+  getProductLink,
+  LABEL_LAYOUTS,
+  LabelLayout,
+  LabelLayoutId,
+  LabelSymbology,
+  toZpl,
+} from '../lib/labels';
+import { downloadBlob } from '../lib/spreadsheets';
+import { Product } from '../types/database';
+
+interface LabelPrintModalProps {
+  products: Product[];
+  onClose: () => void;
+}
+
+export default function LabelPrintModal({ products, onClose }: LabelPrintModalProps) {
+  const [symbology, setSymbology] = useState<LabelSymbology>('code128');
+  const [layoutId, setLayoutId] = useState<LabelLayoutId>('a4-24');
+  const [copies, setCopies] = useState<Record<string, string>>(
+    Object.fromEntries(products.map((product) => [product.id, '1']))
+  );
+
+  const layout = LABEL_LAYOUTS.find((l) => l.id === layoutId) ?? LABEL_LAYOUTS[0];
+  const copiesOf = (productId: string) => Math.max(parseInt(copies[productId]) || 0, 0);
+
+  const labels = products.flatMap((product) =>
+    Array.from({ length: copiesOf(product.id) }, () => product)
+  );
+  const perPage = layout.columns * layout.rows;
+  const pages = Array.from({ length: Math.ceil(labels.length / perPage) }, (_, i) =>
+    labels.slice(i * perPage, (i + 1) * perPage)
+  );
+
+  const handleDownloadZpl = () => {
+    const zpl = toZpl(
+      products.map((product) => ({ product, copies: copiesOf(product.id) })),
+      symbology
+    );
+    downloadBlob(new Blob([zpl], { type: 'text/plain' }), 'labels.zpl');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <style>{`@page { size: ${layout.pageWidth}mm ${layout.pageHeight}mm; margin: 0; }`}</style>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between z-10">
+          <h2 className="text-2xl font-bold text-slate-900">Print Labels</h2>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleDownloadZpl}
+              disabled={labels.length === 0}
+              className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition"
+            >
+              <Download className="w-4 h-4" />
+              ZPL
+            </button>
+            <button
+              onClick={() => window.print()}
+              disabled={labels.length === 0}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+            >
+              <Printer className="w-4 h-4" />
+              Print
+            </button>
+            <button
+              onClick={onClose}
+              className="text-slate-400 hover:text-slate-600 transition"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+            <div>
+              <label htmlFor="layout" className="block text-sm font-medium text-slate-700 mb-2">
+                Layout
+              </label>
+              <select
+                id="layout"
+                value={layoutId}
+                onChange={(e) => setLayoutId(e.target.value as LabelLayoutId)}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                {LABEL_LAYOUTS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="symbology" className="block text-sm font-medium text-slate-700 mb-2">
+                Barcode
+              </label>
+              <select
+                id="symbology"
+                value={symbology}
+                onChange={(e) => setSymbology(e.target.value as LabelSymbology)}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="code128">Code128 (barcode or SKU)</option>
+                <option value="qr">QR code (link to product)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+            {products.map((product) => (
+              <div key={product.id} className="flex items-center justify-between px-4 py-2">
+                <div className="text-sm">
+                  <span className="font-medium text-slate-900">{product.name}</span>
+                  <span className="text-slate-500"> · {product.sku}</span>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  Copies
+                  <input
+                    type="number"
+                    min="0"
+                    value={copies[product.id] ?? ''}
+                    onChange={(e) => setCopies({ ...copies, [product.id]: e.target.value })}
+                    className="w-20 px-3 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  />
+                </label>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-sm text-slate-600">
+            {labels.length} labels on {pages.length} {pages.length === 1 ? 'page' : 'pages'}
+          </p>
+
+          <div className="overflow-x-auto bg-slate-100 p-4 rounded-lg">
+            <div className="print-area space-y-4 print:space-y-0">
+              {pages.map((page, pageIndex) => (
+                <LabelSheet
+                  key={pageIndex}
+                  layout={layout}
+                  labels={page}
+                  symbology={symbology}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LabelSheet({
+  layout,
+  labels,
+  symbology,
+}: {
+  layout: LabelLayout;
+  labels: Product[];
+  symbology: LabelSymbology;
+}) {
+  // Labels are centred on the sheet; the leftover space is the sheet's outer margin
+  const marginX = (layout.pageWidth - layout.columns * layout.labelWidth) / 2;
+  const marginY = (layout.pageHeight - layout.rows * layout.labelHeight) / 2;
+
+  return (
+    <div
+      className="bg-white shadow print:shadow-none break-after-page overflow-hidden"
+      style={{
+        width: `${layout.pageWidth}mm`,
+        height: `${layout.pageHeight}mm`,
+        padding: `${marginY}mm ${marginX}mm`,
+        display: 'grid',
+        gridTemplateColumns: `repeat(${layout.columns}, ${layout.labelWidth}mm)`,
+        gridAutoRows: `${layout.labelHeight}mm`,
+      }}
+    >
+      {labels.map((product, index) => (
+        <ProductLabel key={index} product={product} layout={layout} symbology={symbology} />
+      ))}
+    </div>
+  );
+}
+
+function ProductLabel({
+  product,
+  layout,
+  symbology,
+}: {
+  product: Product;
+  layout: LabelLayout;
+  symbology: LabelSymbology;
+}) {
+  const large = layout.labelHeight > 100;
+  const codeClass =
+    symbology === 'qr'
+      ? large
+        ? 'w-2/3 self-center'
+        : 'h-full aspect-square'
+      : large
+        ? 'w-full'
+        : 'w-1/2';
+
+  return (
+    <div
+      className={`flex ${large ? 'flex-col p-8' : 'items-center gap-2 p-2'} overflow-hidden text-black`}
+    >
+      <div className={`${large ? 'mb-6' : 'flex-1'} min-w-0`}>
+        <p className={`font-bold leading-tight ${large ? 'text-3xl' : 'text-xs line-clamp-2'}`}>
+          {product.name}
+        </p>
+        <p className={`font-mono ${large ? 'text-xl mt-2' : 'text-[10px]'}`}>{product.sku}</p>
+        <p className={`font-semibold ${large ? 'text-2xl mt-2' : 'text-sm'}`}>
+          ${product.price.toFixed(2)}
+        </p>
+      </div>
+      <div className={codeClass}>
+        {symbology === 'qr' ? (
+          <QrCode value={getProductLink(product)} />
+        ) : (
+          <Code128 value={getBarcodeValue(product)} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Code128({ value }: { value: string }) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [valid, setValid] = useState(true);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    // Reports characters Code 128 can't carry (e.g. accented letters) instead of throwing
+    JsBarcode(svgRef.current, value, {
+      format: 'CODE128',
+      margin: 0,
+      fontSize: 14,
+      height: 60,
+      valid: setValid,
+    });
+  }, [value]);
+
+  return (
+    <>
+      <svg ref={svgRef} className={`w-full h-auto ${valid ? '' : 'hidden'}`} />
+      {!valid && <UnencodableCode />}
+    </>
+  );
+}
+
+function QrCode({ value }: { value: string }) {
+  const [svg, setSvg] = useState('');
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let current = true;
+
+    QRCode.toString(value, { type: 'svg', margin: 0, errorCorrectionLevel: 'M' })
+      .then((result) => {
+        if (!current) return;
+        setSvg(result);
+        setFailed(false);
+      })
+      .catch((error) => {
+        if (!current) return;
+        console.error('Error rendering QR code:', error);
+        setFailed(true);
+      });
+
+    return () => {
+      current = false;
+    };
+  }, [value]);
+
+  if (failed) {
+    return <UnencodableCode />;
+  }
+
+  return (
+    <div
+      className="w-full h-full [&>svg]:w-full [&>svg]:h-full"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
+
+function UnencodableCode() {
+  return (
+    <div className="w-full h-full flex items-center justify-center border border-dashed border-red-400 p-1 text-center text-[10px] text-red-700">
+      Unable to encode
+    </div>
+  );
+}
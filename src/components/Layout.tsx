@@ -1,26 +1,32 @@
-import { ReactNode } from 'react';
+import { Suspense } from 'react';
+import { Outlet, useLocation, useNavigate } from 'react-router-dom';
 import {
   LayoutDashboard,
   Package,
   FolderOpen,
+  MapPin,
+  Truck,
+  ClipboardList,
+  ShoppingCart,
+  DollarSign,
+  ClipboardCheck,
+  CalendarClock,
+  Hash,
+  Scale,
   TrendingUp,
   Users,
+  ScrollText,
   LogOut,
   Menu,
   X,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { useNavigate, useLocation } from '../hooks/useNavigate';
 import { useState } from 'react';
 
-interface LayoutProps {
-  children: ReactNode;
-}
-
-export default function Layout({ children }: LayoutProps) {
+export default function Layout() {
   const { profile, signOut } = useAuth();
   const navigate = useNavigate();
-  const location = useLocation();
+  const { pathname } = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
   const handleSignOut = async () => {
@@ -32,8 +38,22 @@ export default function Layout({ children }: LayoutProps) {
     { path: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { path: '/products', label: 'Products', icon: Package },
     { path: '/categories', label: 'Categories', icon: FolderOpen },
+    { path: '/locations', label: 'Locations', icon: MapPin },
+    { path: '/suppliers', label: 'Suppliers', icon: Truck },
+    { path: '/purchase-orders', label: 'Purchase Orders', icon: ClipboardList },
+    { path: '/sales-orders', label: 'Sales Orders', icon: ShoppingCart },
     { path: '/stock', label: 'Stock Transactions', icon: TrendingUp },
-    ...(profile?.role === 'admin' ? [{ path: '/users', label: 'Users', icon: Users }] : []),
+    { path: '/stock-counts', label: 'Stock Counts', icon: ClipboardCheck },
+    { path: '/valuation', label: 'Valuation', icon: DollarSign },
+    { path: '/lots', label: 'Lots & Expiry', icon: CalendarClock },
+    { path: '/serials', label: 'Serial Numbers', icon: Hash },
+    { path: '/ledger-check', label: 'Ledger Check', icon: Scale },
+    ...(profile?.role === 'admin'
+      ? [
+          { path: '/users', label: 'Users', icon: Users },
+          { path: '/audit', label: 'Audit Log', icon: ScrollText },
+        ]
+      : []),
   ];
 
   return (
@@ -54,7 +74,7 @@ export default function Layout({ children }: LayoutProps) {
           <nav className="flex-1 p-4 space-y-1">
             {menuItems.map((item) => {
               const Icon = item.icon;
-              const isActive = location === item.path;
+              const isActive = pathname === item.path || pathname.startsWith(`${item.path}/`);
               return (
                 <button
                   key={item.path}
@@ -106,7 +126,17 @@ export default function Layout({ children }: LayoutProps) {
           </button>
         </header>
 
-        <main className="flex-1 p-6 lg:p-8 overflow-auto">{children}</main>
+        <main className="flex-1 p-6 lg:p-8 overflow-auto">
+          <Suspense
+            fallback={
+              <div className="flex items-center justify-center h-full">
+                <div className="text-slate-600">Loading...</div>
+              </div>
+            }
+          >
+            <Outlet />
+          </Suspense>
+        </main>
       </div>
     </div>
   );
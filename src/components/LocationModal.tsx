@@ -0,0 +1,137 @@
+import { useState, FormEvent, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { Location } from '../types/database';
+
+interface LocationModalProps {
+  location: Location | null;
+  onClose: () => void;
+}
+
+export default function LocationModal({ location, onClose }: LocationModalProps) {
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    is_active: true,
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (location) {
+      setFormData({
+        name: location.name,
+        description: location.description,
+        is_active: location.is_active,
+      });
+    }
+  }, [location]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (location) {
+        const { error } = await supabase
+          .from('locations')
+          .update(formData)
+          .eq('id', location.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('locations').insert([formData]);
+        if (error) throw error;
+      }
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save location');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">
+            {location ? 'Edit Location' : 'Add New Location'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-slate-700 mb-2">
+              Location Name *
+            </label>
+            <input
+              id="name"
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              placeholder="e.g., Back Room"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="description" className="block text-sm font-medium text-slate-700 mb-2">
+              Description
+            </label>
+            <textarea
+              id="description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={4}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+              placeholder="Location description..."
+            />
+          </div>
+
+          <label className="flex items-center gap-3 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={formData.is_active}
+              onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+              disabled={location?.is_default}
+              className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            Active (can receive stock movements)
+          </label>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+            >
+              {loading ? 'Saving...' : location ? 'Update Location' : 'Add Location'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
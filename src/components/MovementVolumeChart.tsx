@@ -0,0 +1,40 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { formatBucket, MovementBucket, MovementVolume } from '../lib/analytics';
+
+interface MovementVolumeChartProps {
+  volumes: MovementVolume[];
+  bucket: MovementBucket;
+}
+
+export default function MovementVolumeChart({ volumes, bucket }: MovementVolumeChartProps) {
+  if (volumes.every((volume) => volume.stock_in === 0 && volume.stock_out === 0)) {
+    return <p className="text-sm text-slate-500 py-12 text-center">No movements in this period</p>;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={260}>
+      <BarChart data={volumes} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+        <XAxis
+          dataKey="bucket"
+          tickFormatter={(value: string) => formatBucket(value, bucket)}
+          tick={{ fontSize: 12, fill: '#64748b' }}
+        />
+        <YAxis allowDecimals={false} tick={{ fontSize: 12, fill: '#64748b' }} width={48} />
+        <Tooltip labelFormatter={(value) => formatBucket(value as string, bucket)} />
+        <Legend wrapperStyle={{ fontSize: 12 }} />
+        <Bar dataKey="stock_in" name="Stock In" fill="#16a34a" isAnimationActive={false} />
+        <Bar dataKey="stock_out" name="Stock Out" fill="#dc2626" isAnimationActive={false} />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
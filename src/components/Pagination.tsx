@@ -0,0 +1,43 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+export default function Pagination({ page, pageSize, total, onPageChange }: PaginationProps) {
+  const pageCount = Math.max(Math.ceil(total / pageSize), 1);
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <div className="flex items-center justify-between px-6 py-3 border-t border-slate-200 text-sm text-slate-600">
+      <span>
+        {first}–{last} of {total}
+      </span>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          title="Previous page"
+          className="p-1 rounded-lg border border-slate-300 hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-white transition"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <span>
+          Page {page} of {pageCount}
+        </span>
+        <button
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pageCount}
+          title="Next page"
+          className="p-1 rounded-lg border border-slate-300 hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-white transition"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { X, Printer } from 'lucide-react';
+import { suggestLots } from '../lib/lots';
+import { SalesOrderWithDetails } from '../types/database';
+
+interface PickListModalProps {
+  salesOrder: SalesOrderWithDetails;
+  onClose: () => void;
+}
+
+export default function PickListModal({ salesOrder, onClose }: PickListModalProps) {
+  const lines = [...salesOrder.sales_order_lines].sort((a, b) =>
+    a.products.sku.localeCompare(b.products.sku)
+  );
+  const stockAtLocation = (line: SalesOrderWithDetails['sales_order_lines'][number]) =>
+    line.products.product_stock.find((s) => s.location_id === salesOrder.location_id)?.quantity ?? 0;
+  const lotsToPick = (line: SalesOrderWithDetails['sales_order_lines'][number]) =>
+    suggestLots(
+      line.products.stock_lots.filter((lot) => lot.location_id === salesOrder.location_id),
+      line.quantity
+    );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">Pick List</h2>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => window.print()}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition"
+            >
+              <Printer className="w-4 h-4" />
+              Print
+            </button>
+            <button
+              onClick={onClose}
+              className="text-slate-400 hover:text-slate-600 transition"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="print-area p-6 space-y-6">
+          <div className="flex justify-between">
+            <div>
+              <p className="text-xs text-slate-500 uppercase tracking-wider">Order</p>
+              <p className="text-xl font-bold text-slate-900">{salesOrder.order_number}</p>
+              <p className="text-sm text-slate-600">
+                Confirmed{' '}
+                {salesOrder.confirmed_at && new Date(salesOrder.confirmed_at).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="text-xs text-slate-500 uppercase tracking-wider">Pick From</p>
+              <p className="text-lg font-semibold text-slate-900">
+                {salesOrder.locations?.name || 'Default location'}
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-slate-500 uppercase tracking-wider">Ship To</p>
+            <p className="text-sm font-medium text-slate-900">{salesOrder.customer_name}</p>
+            <p className="text-sm text-slate-600 whitespace-pre-line">{salesOrder.shipping_address}</p>
+          </div>
+
+          <table className="w-full border border-slate-300">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider border-b border-slate-300">
+                  SKU
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider border-b border-slate-300">
+                  Product
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider border-b border-slate-300">
+                  On Shelf
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider border-b border-slate-300">
+                  Pick Qty
+                </th>
+                <th className="px-4 py-2 text-center text-xs font-medium text-slate-500 uppercase tracking-wider border-b border-slate-300">
+                  Picked
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {lines.map((line) => (
+                <tr key={line.id}>
+                  <td className="px-4 py-3 text-sm font-mono text-slate-900">{line.products.sku}</td>
+                  <td className="px-4 py-3 text-sm text-slate-900">
+                    {line.products.name}
+                    {lotsToPick(line).map((pick) => (
+                      <p key={pick.lot.id} className="text-xs text-slate-500">
+                        Lot {pick.lot.lot_number}
+                        {pick.lot.expiry_date && ` (exp. ${pick.lot.expiry_date})`} × {pick.quantity}
+                      </p>
+                    ))}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-slate-600">{stockAtLocation(line)}</td>
+                  <td className="px-4 py-3 text-lg font-bold text-slate-900">{line.quantity}</td>
+                  <td className="px-4 py-3 text-center">
+                    <span className="inline-block w-5 h-5 border-2 border-slate-400 rounded" />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {salesOrder.notes && (
+            <div>
+              <p className="text-xs text-slate-500 uppercase tracking-wider">Notes</p>
+              <p className="text-sm text-slate-700 whitespace-pre-line">{salesOrder.notes}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-8 pt-8 text-sm text-slate-600">
+            <div className="border-t border-slate-400 pt-2">Picked by</div>
+            <div className="border-t border-slate-400 pt-2">Checked by</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState, useEffect, ChangeEvent } from 'react';
+import { X, Upload } from 'lucide-react';
+import { readSpreadsheet } from '../lib/spreadsheets';
+import {
+  ColumnMapping,
+  ExistingProduct,
+  fetchExistingProducts,
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  importProducts,
+  ImportSummary,
+  previewImport,
+} from '../lib/productImport';
+import { Category } from '../types/database';
+
+interface ProductImportModalProps {
+  categories: Category[];
+  isAdmin: boolean;
+  onClose: () => void;
+}
+
+export default function ProductImportModal({
+  categories,
+  isAdmin,
+  onClose,
+}: ProductImportModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [products, setProducts] = useState<ExistingProduct[]>([]);
+  const [createCategories, setCreateCategories] = useState(false);
+  const [summary, setSummary] = useState<(ImportSummary & { skipped: number }) | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadExistingProducts(rows, mapping.sku, mapping.barcode);
+  }, [rows, mapping.sku, mapping.barcode]);
+
+  const loadExistingProducts = async (
+    fileRows: string[][],
+    skuColumn: number | undefined,
+    barcodeColumn: number | undefined
+  ) => {
+    if (skuColumn === undefined) {
+      setProducts([]);
+      return;
+    }
+
+    const columnValues = (column: number | undefined) =>
+      column === undefined
+        ? []
+        : fileRows.map((row) => (row[column] ?? '').trim()).filter(Boolean);
+
+    try {
+      setProducts(
+        await fetchExistingProducts(columnValues(skuColumn), columnValues(barcodeColumn))
+      );
+    } catch (error) {
+      console.error('Error loading existing products:', error);
+    }
+  };
+
+  const preview = previewImport(rows, mapping, { products, categories, createCategories });
+  const importable = preview.filter((row) => row.action !== 'skip');
+  const counts = {
+    create: preview.filter((row) => row.action === 'create').length,
+    update: preview.filter((row) => row.action === 'update').length,
+    skip: preview.filter((row) => row.action === 'skip').length,
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+
+    try {
+      const [headerRow = [], ...dataRows] = await readSpreadsheet(file);
+      if (dataRows.length === 0) {
+        throw new Error('The file has no rows below the header');
+      }
+
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessMapping(headerRow));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = parseInt(value);
+    }
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      const result = await importProducts(
+        importable.map((row) => row.values),
+        createCategories
+      );
+      setSummary({ ...result, skipped: counts.skip });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import products');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">Import Products</h2>
+            {fileName && <p className="text-sm text-slate-500">{fileName}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {summary ? (
+            <div className="grid grid-cols-3 gap-4">
+              <SummaryCard label="Created" value={summary.created} color="text-green-700" />
+              <SummaryCard label="Updated" value={summary.updated} color="text-blue-700" />
+              <SummaryCard label="Skipped" value={summary.skipped} color="text-slate-700" />
+            </div>
+          ) : (
+            <>
+              <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-slate-300 rounded-lg px-6 py-8 cursor-pointer hover:bg-slate-50 transition">
+                <Upload className="w-8 h-8 text-slate-400" />
+                <span className="text-sm text-slate-700">
+                  {fileName ? 'Choose a different file' : 'Choose a CSV or XLSX file'}
+                </span>
+                <span className="text-xs text-slate-500">
+                  The first row must hold column headers. Existing SKUs are updated.
+                </span>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  onChange={handleFile}
+                  className="hidden"
+                />
+              </label>
+
+              {headers.length > 0 && (
+                <>
+                  <div>
+                    <h3 className="text-lg font-semibold text-slate-900 mb-3">Columns</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-5 gap-y-3">
+                      {IMPORT_FIELDS.map(({ field, label }) => (
+                        <div key={field} className="flex items-center gap-3">
+                          <label htmlFor={`map-${field}`} className="w-40 text-sm text-slate-700">
+                            {label}
+                          </label>
+                          <select
+                            id={`map-${field}`}
+                            value={mapping[field] ?? ''}
+                            onChange={(e) => handleMappingChange(field, e.target.value)}
+                            className="flex-1 px-3 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                          >
+                            <option value="">Not imported</option>
+                            {headers.map((header, index) => (
+                              <option key={index} value={index}>
+                                {header || `Column ${index + 1}`}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {isAdmin && (
+                    <label className="flex items-center gap-3 text-sm text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={createCategories}
+                        onChange={(e) => setCreateCategories(e.target.checked)}
+                        className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                      />
+                      Create categories that don't exist yet
+                    </label>
+                  )}
+
+                  <div>
+                    <h3 className="text-lg font-semibold text-slate-900 mb-1">Preview</h3>
+                    <p className="text-sm text-slate-600 mb-3">
+                      {counts.create} to create · {counts.update} to update · {counts.skip} with
+                      errors will be skipped
+                    </p>
+                    <div className="border border-slate-200 rounded-lg overflow-hidden max-h-80 overflow-y-auto">
+                      <table className="w-full">
+                        <thead className="bg-slate-50 sticky top-0">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                              Row
+                            </th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                              SKU
+                            </th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                              Name
+                            </th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                              Result
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200">
+                          {preview.map((row) => (
+                            <tr key={row.rowNumber} className={row.errors.length ? 'bg-red-50' : undefined}>
+                              <td className="px-4 py-2 text-sm text-slate-500">{row.rowNumber}</td>
+                              <td className="px-4 py-2 text-sm font-mono text-slate-900">
+                                {row.values.sku ?? '-'}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-slate-900">{row.values.name ?? '-'}</td>
+                              <td className="px-4 py-2 text-sm">
+                                {row.action === 'skip' ? (
+                                  row.errors.map((message) => (
+                                    <p key={message} className="text-red-700">
+                                      {message}
+                                    </p>
+                                  ))
+                                ) : (
+                                  <span
+                                    className={row.action === 'create' ? 'text-green-700' : 'text-blue-700'}
+                                  >
+                                    {row.action === 'create' ? 'Create' : 'Update'}
+                                  </span>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              {summary ? 'Close' : 'Cancel'}
+            </button>
+            {!summary && (
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={loading || importable.length === 0}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+              >
+                {loading ? 'Importing...' : `Import ${importable.length} Products`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SummaryCard({ label, value, color }: { label: string; value: number; color: string }) {
+  return (
+    <div className="border border-slate-200 rounded-lg p-4 text-center">
+      <p className="text-sm text-slate-600">{label}</p>
+      <p className={`text-3xl font-bold mt-1 ${color}`}>{value}</p>
+    </div>
+  );
+}
@@ -1,54 +1,145 @@
 import { useState, FormEvent, useEffect } from 'react';
 import { X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { ProductWithCategory, Category } from '../types/database';
+import { ProductWithCategory, Category, Supplier } from '../types/database';
+import ProductSuppliersEditor, { SupplierLinkDraft } from './ProductSuppliersEditor';
 
 interface ProductModalProps {
   product: ProductWithCategory | null;
   categories: Category[];
+  suppliers: Supplier[];
+  initialBarcode?: string;
   onClose: () => void;
 }
 
-export default function ProductModal({ product, categories, onClose }: ProductModalProps) {
+export default function ProductModal({
+  product,
+  categories,
+  suppliers,
+  initialBarcode,
+  onClose,
+}: ProductModalProps) {
   const [formData, setFormData] = useState({
     name: '',
     sku: '',
+    barcode: initialBarcode ?? '',
     category_id: '',
     price: '',
     quantity: '',
+    reorder_point: '5',
+    reorder_quantity: '0',
+    max_level: '',
+    track_lots: false,
+    track_serials: false,
     description: '',
   });
+  const [supplierLinks, setSupplierLinks] = useState<SupplierLinkDraft[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
   useEffect(() => {
     if (product) {
+      loadSupplierLinks(product.id);
       setFormData({
         name: product.name,
         sku: product.sku,
+        barcode: product.barcode ?? '',
         category_id: product.category_id || '',
         price: product.price.toString(),
         quantity: product.quantity.toString(),
+        reorder_point: product.reorder_point.toString(),
+        reorder_quantity: product.reorder_quantity.toString(),
+        max_level: product.max_level?.toString() ?? '',
+        track_lots: product.track_lots,
+        track_serials: product.track_serials,
         description: product.description,
       });
     }
   }, [product]);
 
+  const loadSupplierLinks = async (productId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('product_suppliers')
+        .select('*')
+        .eq('product_id', productId);
+
+      if (error) throw error;
+      setSupplierLinks(
+        (data || []).map((link) => ({
+          supplier_id: link.supplier_id,
+          supplier_sku: link.supplier_sku,
+          unit_cost: link.unit_cost.toString(),
+          min_order_quantity: link.min_order_quantity.toString(),
+          is_preferred: link.is_preferred,
+        }))
+      );
+    } catch (error) {
+      console.error('Error loading product suppliers:', error);
+    }
+  };
+
+  const saveSupplierLinks = async (productId: string) => {
+    const supplierIds = supplierLinks.map((link) => link.supplier_id);
+
+    let removeQuery = supabase.from('product_suppliers').delete().eq('product_id', productId);
+    if (supplierIds.length > 0) {
+      removeQuery = removeQuery.not('supplier_id', 'in', `(${supplierIds.join(',')})`);
+    }
+    const { error: removeError } = await removeQuery;
+    if (removeError) throw removeError;
+
+    if (supplierLinks.length === 0) return;
+
+    // Clear the preferred flag first so the single-preferred index holds during the upsert
+    const { error: resetError } = await supabase
+      .from('product_suppliers')
+      .update({ is_preferred: false })
+      .eq('product_id', productId);
+    if (resetError) throw resetError;
+
+    const { error: upsertError } = await supabase.from('product_suppliers').upsert(
+      supplierLinks.map((link) => ({
+        product_id: productId,
+        supplier_id: link.supplier_id,
+        supplier_sku: link.supplier_sku,
+        unit_cost: parseFloat(link.unit_cost),
+        min_order_quantity: parseInt(link.min_order_quantity),
+        is_preferred: link.is_preferred,
+      }))
+    );
+    if (upsertError) throw upsertError;
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
 
     try {
+      const reorderPoint = parseInt(formData.reorder_point);
+      const maxLevel = formData.max_level ? parseInt(formData.max_level) : null;
+
+      if (maxLevel !== null && maxLevel < reorderPoint) {
+        throw new Error('Max level cannot be lower than the reorder point');
+      }
+
       const payload = {
         name: formData.name,
         sku: formData.sku,
+        barcode: formData.barcode.trim() || null,
         category_id: formData.category_id || null,
         price: parseFloat(formData.price),
-        quantity: parseInt(formData.quantity),
+        reorder_point: reorderPoint,
+        reorder_quantity: parseInt(formData.reorder_quantity),
+        max_level: maxLevel,
+        track_lots: formData.track_lots,
+        track_serials: formData.track_serials,
         description: formData.description,
       };
 
+      let productId = product?.id;
+
       if (product) {
         const { error } = await supabase
           .from('products')
@@ -56,8 +147,17 @@ export default function ProductModal({ product, categories, onClose }: ProductMo
           .eq('id', product.id);
         if (error) throw error;
       } else {
-        const { error } = await supabase.from('products').insert([payload]);
+        const { data, error } = await supabase
+          .from('products')
+          .insert([{ ...payload, quantity: parseInt(formData.quantity) }])
+          .select('id')
+          .single();
         if (error) throw error;
+        productId = data.id;
+      }
+
+      if (productId) {
+        await saveSupplierLinks(productId);
       }
 
       onClose();
@@ -121,6 +221,20 @@ export default function ProductModal({ product, categories, onClose }: ProductMo
               />
             </div>
 
+            <div>
+              <label htmlFor="barcode" className="block text-sm font-medium text-slate-700 mb-2">
+                Barcode
+              </label>
+              <input
+                id="barcode"
+                type="text"
+                value={formData.barcode}
+                onChange={(e) => setFormData({ ...formData, barcode: e.target.value })}
+                className="w-full px-4 py-2 font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                placeholder="EAN, UPC or Code128"
+              />
+            </div>
+
             <div>
               <label htmlFor="category" className="block text-sm font-medium text-slate-700 mb-2">
                 Category
@@ -168,12 +282,100 @@ export default function ProductModal({ product, categories, onClose }: ProductMo
                 value={formData.quantity}
                 onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
                 required
+                disabled={!!product}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-slate-100 disabled:cursor-not-allowed"
+                placeholder="0"
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {product
+                  ? 'Total across locations. Change it with a stock transaction or a stock count.'
+                  : 'Opening balance, posted to the ledger at the default location'}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+            <div>
+              <label htmlFor="reorder_point" className="block text-sm font-medium text-slate-700 mb-2">
+                Reorder Point *
+              </label>
+              <input
+                id="reorder_point"
+                type="number"
+                min="0"
+                value={formData.reorder_point}
+                onChange={(e) => setFormData({ ...formData, reorder_point: e.target.value })}
+                required
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                placeholder="5"
+              />
+              <p className="text-xs text-slate-500 mt-1">Low stock at or below this level</p>
+            </div>
+
+            <div>
+              <label htmlFor="reorder_quantity" className="block text-sm font-medium text-slate-700 mb-2">
+                Reorder Quantity *
+              </label>
+              <input
+                id="reorder_quantity"
+                type="number"
+                min="0"
+                value={formData.reorder_quantity}
+                onChange={(e) => setFormData({ ...formData, reorder_quantity: e.target.value })}
+                required
                 className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
                 placeholder="0"
               />
+              <p className="text-xs text-slate-500 mt-1">Suggested amount to reorder</p>
+            </div>
+
+            <div>
+              <label htmlFor="max_level" className="block text-sm font-medium text-slate-700 mb-2">
+                Max Level
+              </label>
+              <input
+                id="max_level"
+                type="number"
+                min="0"
+                value={formData.max_level}
+                onChange={(e) => setFormData({ ...formData, max_level: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                placeholder="No limit"
+              />
+              <p className="text-xs text-slate-500 mt-1">Overstock above this level</p>
             </div>
           </div>
 
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={formData.track_lots}
+              onChange={(e) => setFormData({ ...formData, track_lots: e.target.checked })}
+              className="mt-1 w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-slate-700">
+              Track lots and expiry dates
+              <span className="block text-xs text-slate-500">
+                Receipts must name a lot; issues take the first expiring lot by default
+              </span>
+            </span>
+          </label>
+
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={formData.track_serials}
+              onChange={(e) => setFormData({ ...formData, track_serials: e.target.checked })}
+              className="mt-1 w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-slate-700">
+              Serialized
+              <span className="block text-xs text-slate-500">
+                Every unit received or issued is recorded by its serial number
+              </span>
+            </span>
+          </label>
+
           <div>
             <label htmlFor="description" className="block text-sm font-medium text-slate-700 mb-2">
               Description
@@ -188,6 +390,12 @@ export default function ProductModal({ product, categories, onClose }: ProductMo
             />
           </div>
 
+          <ProductSuppliersEditor
+            suppliers={suppliers}
+            links={supplierLinks}
+            onChange={setSupplierLinks}
+          />
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { buildSearchFilter } from '../lib/pagination';
+import { Product } from '../types/database';
+
+const PICKER_LIMIT = 20;
+
+interface ProductPickerProps {
+  id?: string;
+  selected: Pick<Product, 'id' | 'name' | 'sku'> | null;
+  onSelect: (product: Product | null) => void;
+  placeholder?: string;
+}
+
+// Finds products by name or SKU as you type, so no list of the whole catalogue is needed
+export default function ProductPicker({
+  id,
+  selected,
+  onSelect,
+  placeholder = 'Search product name or SKU...',
+}: ProductPickerProps) {
+  const [term, setTerm] = useState('');
+  const [results, setResults] = useState<Product[]>([]);
+  const [open, setOpen] = useState(false);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const timer = window.setTimeout(() => searchProducts(term.trim()), 250);
+    return () => window.clearTimeout(timer);
+  }, [term, open]);
+
+  const searchProducts = async (value: string) => {
+    const request = ++latestRequest.current;
+
+    try {
+      let query = supabase.from('products').select('*').order('name');
+      if (value) {
+        query = query.or(buildSearchFilter(value, ['name', 'sku']));
+      }
+
+      const { data, error } = await query.range(0, PICKER_LIMIT - 1);
+      if (error) throw error;
+
+      if (request !== latestRequest.current) return;
+      setResults(data || []);
+    } catch (error) {
+      console.error('Error searching products:', error);
+    }
+  };
+
+  const choose = (product: Product) => {
+    setTerm('');
+    setOpen(false);
+    onSelect(product);
+  };
+
+  if (selected) {
+    return (
+      <div className="flex items-center justify-between gap-2 w-full px-4 py-2 border border-slate-300 rounded-lg bg-white">
+        <span className="text-slate-900 truncate">
+          {selected.name} ({selected.sku})
+        </span>
+        <button
+          type="button"
+          onClick={() => onSelect(null)}
+          title="Clear product"
+          className="text-slate-400 hover:text-slate-600 transition"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
+      <input
+        id={id}
+        type="text"
+        value={term}
+        onChange={(e) => setTerm(e.target.value)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder={placeholder}
+        autoComplete="off"
+        className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+      />
+      {open && (
+        <ul className="absolute z-10 mt-1 w-full max-h-60 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg divide-y divide-slate-100">
+          {results.length === 0 ? (
+            <li className="px-4 py-2 text-sm text-slate-500">No matching products</li>
+          ) : (
+            results.map((product) => (
+              <li key={product.id}>
+                <button
+                  type="button"
+                  // Chosen before the input loses focus and closes the list
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    choose(product);
+                  }}
+                  className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50 transition"
+                >
+                  <span className="text-slate-900">{product.name}</span>
+                  <span className="text-slate-500">
+                    {' '}
+                    ({product.sku}) · Available: {product.available_quantity}
+                  </span>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
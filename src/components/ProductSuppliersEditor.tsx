@@ -0,0 +1,145 @@
+import { Plus, Star, Trash2 } from 'lucide-react';
+import { Supplier } from '../types/database';
+
+export interface SupplierLinkDraft {
+  supplier_id: string;
+  supplier_sku: string;
+  unit_cost: string;
+  min_order_quantity: string;
+  is_preferred: boolean;
+}
+
+interface ProductSuppliersEditorProps {
+  suppliers: Supplier[];
+  links: SupplierLinkDraft[];
+  onChange: (links: SupplierLinkDraft[]) => void;
+}
+
+export default function ProductSuppliersEditor({
+  suppliers,
+  links,
+  onChange,
+}: ProductSuppliersEditorProps) {
+  const updateLink = (index: number, changes: Partial<SupplierLinkDraft>) => {
+    onChange(links.map((link, i) => (i === index ? { ...link, ...changes } : link)));
+  };
+
+  const setPreferred = (index: number) => {
+    onChange(links.map((link, i) => ({ ...link, is_preferred: i === index })));
+  };
+
+  const addLink = () => {
+    onChange([
+      ...links,
+      {
+        supplier_id: '',
+        supplier_sku: '',
+        unit_cost: '',
+        min_order_quantity: '1',
+        is_preferred: links.length === 0,
+      },
+    ]);
+  };
+
+  const removeLink = (index: number) => {
+    onChange(links.filter((_, i) => i !== index));
+  };
+
+  const usedSupplierIds = links.map((link) => link.supplier_id);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="block text-sm font-medium text-slate-700">Suppliers</span>
+        <button
+          type="button"
+          onClick={addLink}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 transition"
+        >
+          <Plus className="w-4 h-4" />
+          Add Supplier
+        </button>
+      </div>
+
+      {links.length === 0 ? (
+        <p className="text-sm text-slate-500 border border-dashed border-slate-300 rounded-lg px-4 py-3">
+          No suppliers linked to this product
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {links.map((link, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-12 gap-2 items-center border border-slate-200 rounded-lg p-3"
+            >
+              <select
+                value={link.supplier_id}
+                onChange={(e) => updateLink(index, { supplier_id: e.target.value })}
+                required
+                className="col-span-12 md:col-span-4 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="">Select a supplier</option>
+                {suppliers
+                  .filter(
+                    (supplier) =>
+                      supplier.id === link.supplier_id ||
+                      (supplier.is_active && !usedSupplierIds.includes(supplier.id))
+                  )
+                  .map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+              </select>
+              <input
+                type="text"
+                value={link.supplier_sku}
+                onChange={(e) => updateLink(index, { supplier_sku: e.target.value })}
+                className="col-span-4 md:col-span-3 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                placeholder="Supplier SKU"
+              />
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={link.unit_cost}
+                onChange={(e) => updateLink(index, { unit_cost: e.target.value })}
+                required
+                className="col-span-3 md:col-span-2 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                placeholder="Cost"
+                title="Unit cost"
+              />
+              <input
+                type="number"
+                min="1"
+                value={link.min_order_quantity}
+                onChange={(e) => updateLink(index, { min_order_quantity: e.target.value })}
+                required
+                className="col-span-3 md:col-span-2 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                placeholder="MOQ"
+                title="Minimum order quantity"
+              />
+              <div className="col-span-2 md:col-span-1 flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setPreferred(index)}
+                  title={link.is_preferred ? 'Preferred supplier' : 'Make preferred supplier'}
+                  className={link.is_preferred ? 'text-amber-500' : 'text-slate-300 hover:text-amber-500'}
+                >
+                  <Star className="w-4 h-4" fill={link.is_preferred ? 'currentColor' : 'none'} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeLink(index)}
+                  className="text-red-600 hover:text-red-800 transition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
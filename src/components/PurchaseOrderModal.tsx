@@ -0,0 +1,363 @@
+import { useState, FormEvent, useEffect } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  Location,
+  Product,
+  ProductSupplier,
+  PurchaseOrderWithDetails,
+  Supplier,
+} from '../types/database';
+
+interface PurchaseOrderModalProps {
+  purchaseOrder: PurchaseOrderWithDetails | null;
+  suppliers: Supplier[];
+  products: Product[];
+  locations: Location[];
+  onClose: () => void;
+}
+
+interface LineDraft {
+  product_id: string;
+  quantity_ordered: string;
+  unit_cost: string;
+}
+
+export default function PurchaseOrderModal({
+  purchaseOrder,
+  suppliers,
+  products,
+  locations,
+  onClose,
+}: PurchaseOrderModalProps) {
+  const [formData, setFormData] = useState({
+    supplier_id: '',
+    location_id: locations.find((l) => l.is_default)?.id || '',
+    expected_date: '',
+    notes: '',
+  });
+  const [lines, setLines] = useState<LineDraft[]>([]);
+  const [supplierPrices, setSupplierPrices] = useState<ProductSupplier[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (purchaseOrder) {
+      setFormData({
+        supplier_id: purchaseOrder.supplier_id,
+        location_id: purchaseOrder.location_id || '',
+        expected_date: purchaseOrder.expected_date || '',
+        notes: purchaseOrder.notes,
+      });
+      setLines(
+        purchaseOrder.purchase_order_lines.map((line) => ({
+          product_id: line.product_id,
+          quantity_ordered: line.quantity_ordered.toString(),
+          unit_cost: line.unit_cost.toString(),
+        }))
+      );
+    }
+  }, [purchaseOrder]);
+
+  useEffect(() => {
+    if (!formData.supplier_id) {
+      setSupplierPrices([]);
+      return;
+    }
+    loadSupplierPrices(formData.supplier_id);
+  }, [formData.supplier_id]);
+
+  const loadSupplierPrices = async (supplierId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('product_suppliers')
+        .select('*')
+        .eq('supplier_id', supplierId);
+
+      if (error) throw error;
+      setSupplierPrices(data || []);
+    } catch (error) {
+      console.error('Error loading supplier prices:', error);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const selectProduct = (index: number, productId: string) => {
+    const price = supplierPrices.find((p) => p.product_id === productId);
+    updateLine(index, {
+      product_id: productId,
+      unit_cost: price ? price.unit_cost.toString() : lines[index].unit_cost,
+      quantity_ordered: price
+        ? Math.max(parseInt(lines[index].quantity_ordered) || 0, price.min_order_quantity).toString()
+        : lines[index].quantity_ordered,
+    });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (lines.length === 0) {
+        throw new Error('Add at least one line');
+      }
+
+      const payload = {
+        supplier_id: formData.supplier_id,
+        location_id: formData.location_id || null,
+        expected_date: formData.expected_date || null,
+        notes: formData.notes,
+      };
+
+      let purchaseOrderId = purchaseOrder?.id;
+
+      if (purchaseOrder) {
+        const { error } = await supabase
+          .from('purchase_orders')
+          .update(payload)
+          .eq('id', purchaseOrder.id);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase
+          .from('purchase_order_lines')
+          .delete()
+          .eq('purchase_order_id', purchaseOrder.id);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('purchase_orders')
+          .insert([payload])
+          .select('id')
+          .single();
+        if (error) throw error;
+        purchaseOrderId = data.id;
+      }
+
+      const { error: linesError } = await supabase.from('purchase_order_lines').insert(
+        lines.map((line) => ({
+          purchase_order_id: purchaseOrderId,
+          product_id: line.product_id,
+          quantity_ordered: parseInt(line.quantity_ordered),
+          unit_cost: parseFloat(line.unit_cost),
+        }))
+      );
+      if (linesError) throw linesError;
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save purchase order');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const usedProductIds = lines.map((line) => line.product_id);
+  const total = lines.reduce(
+    (sum, line) => sum + (parseInt(line.quantity_ordered) || 0) * (parseFloat(line.unit_cost) || 0),
+    0
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">
+            {purchaseOrder ? `Edit ${purchaseOrder.po_number}` : 'New Purchase Order'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+            <div>
+              <label htmlFor="supplier" className="block text-sm font-medium text-slate-700 mb-2">
+                Supplier *
+              </label>
+              <select
+                id="supplier"
+                value={formData.supplier_id}
+                onChange={(e) => setFormData({ ...formData, supplier_id: e.target.value })}
+                required
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="">Select a supplier</option>
+                {suppliers
+                  .filter((s) => s.is_active || s.id === formData.supplier_id)
+                  .map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="location" className="block text-sm font-medium text-slate-700 mb-2">
+                Deliver To
+              </label>
+              <select
+                id="location"
+                value={formData.location_id}
+                onChange={(e) => setFormData({ ...formData, location_id: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="">Default location</option>
+                {locations
+                  .filter((l) => l.is_active)
+                  .map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="expected_date" className="block text-sm font-medium text-slate-700 mb-2">
+                Expected Date
+              </label>
+              <input
+                id="expected_date"
+                type="date"
+                value={formData.expected_date}
+                onChange={(e) => setFormData({ ...formData, expected_date: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="block text-sm font-medium text-slate-700">Lines *</span>
+              <button
+                type="button"
+                onClick={() =>
+                  setLines([...lines, { product_id: '', quantity_ordered: '1', unit_cost: '' }])
+                }
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 transition"
+              >
+                <Plus className="w-4 h-4" />
+                Add Line
+              </button>
+            </div>
+
+            {lines.length === 0 ? (
+              <p className="text-sm text-slate-500 border border-dashed border-slate-300 rounded-lg px-4 py-3">
+                No lines yet
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-xs font-medium text-slate-500 uppercase tracking-wider px-1">
+                  <span className="col-span-6">Product</span>
+                  <span className="col-span-2">Quantity</span>
+                  <span className="col-span-2">Unit Cost</span>
+                  <span className="col-span-2 text-right">Line Total</span>
+                </div>
+                {lines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <select
+                      value={line.product_id}
+                      onChange={(e) => selectProduct(index, e.target.value)}
+                      required
+                      className="col-span-6 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    >
+                      <option value="">Select a product</option>
+                      {products
+                        .filter((p) => p.id === line.product_id || !usedProductIds.includes(p.id))
+                        .map((product) => (
+                          <option key={product.id} value={product.id}>
+                            {product.name} ({product.sku})
+                          </option>
+                        ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="1"
+                      value={line.quantity_ordered}
+                      onChange={(e) => updateLine(index, { quantity_ordered: e.target.value })}
+                      required
+                      className="col-span-2 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={line.unit_cost}
+                      onChange={(e) => updateLine(index, { unit_cost: e.target.value })}
+                      required
+                      className="col-span-2 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                      placeholder="0.00"
+                    />
+                    <div className="col-span-2 flex items-center justify-end gap-2 text-sm text-slate-600">
+                      $
+                      {(
+                        (parseInt(line.quantity_ordered) || 0) * (parseFloat(line.unit_cost) || 0)
+                      ).toFixed(2)}
+                      <button
+                        type="button"
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-800 transition"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-end pt-2 border-t border-slate-100 text-sm">
+                  <span className="text-slate-600 mr-2">Order Total:</span>
+                  <span className="font-semibold text-slate-900">${total.toFixed(2)}</span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-slate-700 mb-2">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+              placeholder="Notes for this order..."
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+            >
+              {loading ? 'Saving...' : purchaseOrder ? 'Update Draft' : 'Save Draft'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState, FormEvent } from 'react';
+import { X } from 'lucide-react';
+import { receivePurchaseOrder } from '../lib/purchaseOrders';
+import { Location, PurchaseOrderWithDetails } from '../types/database';
+
+interface ReceivePurchaseOrderModalProps {
+  purchaseOrder: PurchaseOrderWithDetails;
+  locations: Location[];
+  onClose: () => void;
+}
+
+export default function ReceivePurchaseOrderModal({
+  purchaseOrder,
+  locations,
+  onClose,
+}: ReceivePurchaseOrderModalProps) {
+  const [locationId, setLocationId] = useState(purchaseOrder.location_id || '');
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [lots, setLots] = useState<Record<string, { lot_number: string; expiry_date: string }>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const outstanding = (lineId: string) => {
+    const line = purchaseOrder.purchase_order_lines.find((l) => l.id === lineId);
+    return line ? line.quantity_ordered - line.quantity_received : 0;
+  };
+
+  const receiveAllOutstanding = () => {
+    setQuantities(
+      Object.fromEntries(
+        purchaseOrder.purchase_order_lines.map((line) => [line.id, outstanding(line.id).toString()])
+      )
+    );
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const receipts = Object.entries(quantities)
+        .map(([lineId, quantity]) => ({
+          lineId,
+          quantity: parseInt(quantity) || 0,
+          lotNumber: lots[lineId]?.lot_number || undefined,
+          expiryDate: lots[lineId]?.expiry_date || undefined,
+        }))
+        .filter((receipt) => receipt.quantity > 0);
+
+      if (receipts.length === 0) {
+        throw new Error('Enter a quantity for at least one line');
+      }
+
+      await receivePurchaseOrder(purchaseOrder.id, locationId || null, receipts);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to receive goods');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setLot = (lineId: string, field: 'lot_number' | 'expiry_date', value: string) => {
+    const current = lots[lineId] ?? { lot_number: '', expiry_date: '' };
+    setLots({ ...lots, [lineId]: { ...current, [field]: value } });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">Receive Goods</h2>
+            <p className="text-sm text-slate-500">
+              {purchaseOrder.po_number} · {purchaseOrder.suppliers.name}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="location" className="block text-sm font-medium text-slate-700 mb-2">
+              Receive Into
+            </label>
+            <select
+              id="location"
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            >
+              <option value="">Default location</option>
+              {locations
+                .filter((l) => l.is_active)
+                .map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Product
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Ordered
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Received
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Receive Now
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {purchaseOrder.purchase_order_lines.map((line) => (
+                  <tr key={line.id}>
+                    <td className="px-4 py-3 text-sm font-medium text-slate-900">
+                      {line.products.name}
+                      <p className="text-xs text-slate-500">{line.products.sku}</p>
+                      {line.products.track_lots && outstanding(line.id) > 0 && (
+                        <div className="flex gap-2 mt-2">
+                          <input
+                            type="text"
+                            value={lots[line.id]?.lot_number ?? ''}
+                            onChange={(e) => setLot(line.id, 'lot_number', e.target.value)}
+                            required={(parseInt(quantities[line.id]) || 0) > 0}
+                            className="w-28 px-2 py-1 text-xs border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                            placeholder="Lot number"
+                          />
+                          <input
+                            type="date"
+                            value={lots[line.id]?.expiry_date ?? ''}
+                            onChange={(e) => setLot(line.id, 'expiry_date', e.target.value)}
+                            title="Expiry date"
+                            className="px-2 py-1 text-xs border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                          />
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-600">{line.quantity_ordered}</td>
+                    <td className="px-4 py-3 text-sm text-slate-600">{line.quantity_received}</td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        max={outstanding(line.id)}
+                        value={quantities[line.id] ?? ''}
+                        onChange={(e) => setQuantities({ ...quantities, [line.id]: e.target.value })}
+                        disabled={outstanding(line.id) === 0}
+                        className="w-24 px-3 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-slate-100"
+                        placeholder="0"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button
+            type="button"
+            onClick={receiveAllOutstanding}
+            className="text-sm text-blue-600 hover:text-blue-800 transition"
+          >
+            Fill in all outstanding quantities
+          </button>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+            >
+              {loading ? 'Receiving...' : 'Receive Goods'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { getRedirectPath, RedirectState } from '../routes';
+import { Profile } from '../types/database';
+
+function FullScreenLoading() {
+  return (
+    <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+      <div className="text-slate-600">Loading...</div>
+    </div>
+  );
+}
+
+export function RequireAuth({ children }: { children: ReactNode }) {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <FullScreenLoading />;
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location } satisfies RedirectState} />;
+  }
+
+  return <>{children}</>;
+}
+
+export function GuestOnly({ children }: { children: ReactNode }) {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <FullScreenLoading />;
+  }
+
+  if (user) {
+    return <Navigate to={getRedirectPath(location.state)} replace />;
+  }
+
+  return <>{children}</>;
+}
+
+export function RequireRole({
+  roles,
+  children,
+}: {
+  roles: Profile['role'][] | undefined;
+  children: ReactNode;
+}) {
+  const { profile } = useAuth();
+
+  if (!roles) {
+    return <>{children}</>;
+  }
+
+  // The profile loads just after sign-in
+  if (!profile) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-slate-600">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!roles.includes(profile.role)) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <p className="text-xl text-slate-600">Access Denied</p>
+          <p className="text-slate-500 mt-2">Your role doesn't have access to this page</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
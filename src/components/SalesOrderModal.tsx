@@ -0,0 +1,336 @@
+import { useState, FormEvent, useEffect } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { Location, Product, SalesOrderWithDetails } from '../types/database';
+
+interface SalesOrderModalProps {
+  salesOrder: SalesOrderWithDetails | null;
+  products: Product[];
+  locations: Location[];
+  onClose: () => void;
+}
+
+interface LineDraft {
+  product_id: string;
+  quantity: string;
+  unit_price: string;
+}
+
+export default function SalesOrderModal({
+  salesOrder,
+  products,
+  locations,
+  onClose,
+}: SalesOrderModalProps) {
+  const [formData, setFormData] = useState({
+    customer_name: '',
+    customer_email: '',
+    shipping_address: '',
+    location_id: locations.find((l) => l.is_default)?.id || '',
+    notes: '',
+  });
+  const [lines, setLines] = useState<LineDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (salesOrder) {
+      setFormData({
+        customer_name: salesOrder.customer_name,
+        customer_email: salesOrder.customer_email,
+        shipping_address: salesOrder.shipping_address,
+        location_id: salesOrder.location_id || '',
+        notes: salesOrder.notes,
+      });
+      setLines(
+        salesOrder.sales_order_lines.map((line) => ({
+          product_id: line.product_id,
+          quantity: line.quantity.toString(),
+          unit_price: line.unit_price.toString(),
+        }))
+      );
+    }
+  }, [salesOrder]);
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const selectProduct = (index: number, productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    updateLine(index, {
+      product_id: productId,
+      unit_price: product ? product.price.toString() : lines[index].unit_price,
+    });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (lines.length === 0) {
+        throw new Error('Add at least one line');
+      }
+
+      const payload = {
+        customer_name: formData.customer_name,
+        customer_email: formData.customer_email,
+        shipping_address: formData.shipping_address,
+        location_id: formData.location_id || null,
+        notes: formData.notes,
+      };
+
+      let salesOrderId = salesOrder?.id;
+
+      if (salesOrder) {
+        const { error } = await supabase
+          .from('sales_orders')
+          .update(payload)
+          .eq('id', salesOrder.id);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase
+          .from('sales_order_lines')
+          .delete()
+          .eq('sales_order_id', salesOrder.id);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('sales_orders')
+          .insert([payload])
+          .select('id')
+          .single();
+        if (error) throw error;
+        salesOrderId = data.id;
+      }
+
+      const { error: linesError } = await supabase.from('sales_order_lines').insert(
+        lines.map((line) => ({
+          sales_order_id: salesOrderId,
+          product_id: line.product_id,
+          quantity: parseInt(line.quantity),
+          unit_price: parseFloat(line.unit_price),
+        }))
+      );
+      if (linesError) throw linesError;
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save sales order');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const usedProductIds = lines.map((line) => line.product_id);
+  const total = lines.reduce(
+    (sum, line) => sum + (parseInt(line.quantity) || 0) * (parseFloat(line.unit_price) || 0),
+    0
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">
+            {salesOrder ? `Edit ${salesOrder.order_number}` : 'New Sales Order'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+            <div>
+              <label htmlFor="customer_name" className="block text-sm font-medium text-slate-700 mb-2">
+                Customer *
+              </label>
+              <input
+                id="customer_name"
+                type="text"
+                value={formData.customer_name}
+                onChange={(e) => setFormData({ ...formData, customer_name: e.target.value })}
+                required
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                placeholder="e.g., Northwind Ltd"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="customer_email" className="block text-sm font-medium text-slate-700 mb-2">
+                Customer Email
+              </label>
+              <input
+                id="customer_email"
+                type="email"
+                value={formData.customer_email}
+                onChange={(e) => setFormData({ ...formData, customer_email: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                placeholder="buyer@example.com"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="location" className="block text-sm font-medium text-slate-700 mb-2">
+                Ship From
+              </label>
+              <select
+                id="location"
+                value={formData.location_id}
+                onChange={(e) => setFormData({ ...formData, location_id: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="">Default location</option>
+                {locations
+                  .filter((l) => l.is_active)
+                  .map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="shipping_address" className="block text-sm font-medium text-slate-700 mb-2">
+              Shipping Address
+            </label>
+            <textarea
+              id="shipping_address"
+              value={formData.shipping_address}
+              onChange={(e) => setFormData({ ...formData, shipping_address: e.target.value })}
+              rows={2}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+              placeholder="Street, city, postal code..."
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="block text-sm font-medium text-slate-700">Lines *</span>
+              <button
+                type="button"
+                onClick={() => setLines([...lines, { product_id: '', quantity: '1', unit_price: '' }])}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 transition"
+              >
+                <Plus className="w-4 h-4" />
+                Add Line
+              </button>
+            </div>
+
+            {lines.length === 0 ? (
+              <p className="text-sm text-slate-500 border border-dashed border-slate-300 rounded-lg px-4 py-3">
+                No lines yet
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-xs font-medium text-slate-500 uppercase tracking-wider px-1">
+                  <span className="col-span-6">Product</span>
+                  <span className="col-span-2">Quantity</span>
+                  <span className="col-span-2">Unit Price</span>
+                  <span className="col-span-2 text-right">Line Total</span>
+                </div>
+                {lines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <select
+                      value={line.product_id}
+                      onChange={(e) => selectProduct(index, e.target.value)}
+                      required
+                      className="col-span-6 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    >
+                      <option value="">Select a product</option>
+                      {products
+                        .filter((p) => p.id === line.product_id || !usedProductIds.includes(p.id))
+                        .map((product) => (
+                          <option key={product.id} value={product.id}>
+                            {product.name} ({product.sku})
+                          </option>
+                        ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="1"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      required
+                      className="col-span-2 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={line.unit_price}
+                      onChange={(e) => updateLine(index, { unit_price: e.target.value })}
+                      required
+                      className="col-span-2 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                      placeholder="0.00"
+                    />
+                    <div className="col-span-2 flex items-center justify-end gap-2 text-sm text-slate-600">
+                      $
+                      {((parseInt(line.quantity) || 0) * (parseFloat(line.unit_price) || 0)).toFixed(2)}
+                      <button
+                        type="button"
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        className="text-red-600 hover:text-red-800 transition"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-end pt-2 border-t border-slate-100 text-sm">
+                  <span className="text-slate-600 mr-2">Order Total:</span>
+                  <span className="font-semibold text-slate-900">${total.toFixed(2)}</span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-slate-700 mb-2">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+              placeholder="Notes for this order..."
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+            >
+              {loading ? 'Saving...' : salesOrder ? 'Update Draft' : 'Save Draft'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
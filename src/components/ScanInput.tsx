@@ -0,0 +1,60 @@
+import { useState, KeyboardEvent } from 'react';
+import { Camera, ScanBarcode } from 'lucide-react';
+import CameraScanner from './CameraScanner';
+
+interface ScanInputProps {
+  onScan: (code: string) => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+// Handheld scanners type the code and press Enter, so a scan is whatever was typed up to Enter
+export default function ScanInput({ onScan, placeholder, autoFocus }: ScanInputProps) {
+  const [value, setValue] = useState('');
+  const [cameraOpen, setCameraOpen] = useState(false);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    const code = value.trim();
+    if (code) {
+      onScan(code);
+      setValue('');
+    }
+  };
+
+  const handleDetected = (code: string) => {
+    setCameraOpen(false);
+    onScan(code);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <div className="relative flex-1">
+        <ScanBarcode className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={handleKeyDown}
+          autoFocus={autoFocus}
+          className="w-full pl-10 pr-4 py-2 font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          placeholder={placeholder ?? 'Scan barcode or SKU'}
+        />
+      </div>
+      <button
+        type="button"
+        onClick={() => setCameraOpen(true)}
+        title="Scan with camera"
+        className="px-3 border border-slate-300 text-slate-600 rounded-lg hover:bg-slate-50 transition"
+      >
+        <Camera className="w-5 h-5" />
+      </button>
+
+      {cameraOpen && (
+        <CameraScanner onDetected={handleDetected} onClose={() => setCameraOpen(false)} />
+      )}
+    </div>
+  );
+}
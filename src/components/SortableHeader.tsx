@@ -0,0 +1,28 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { SortState } from '../lib/pagination';
+
+interface SortableHeaderProps {
+  label: string;
+  column: string;
+  sort: SortState;
+  onSort: (sort: SortState) => void;
+}
+
+export default function SortableHeader({ label, column, sort, onSort }: SortableHeaderProps) {
+  const active = sort.column === column;
+  const Icon = active ? (sort.ascending ? ArrowUp : ArrowDown) : ArrowUpDown;
+
+  return (
+    <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+      <button
+        onClick={() => onSort({ column, ascending: active ? !sort.ascending : true })}
+        className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-slate-900 transition ${
+          active ? 'text-slate-900' : ''
+        }`}
+      >
+        {label}
+        <Icon className="w-3 h-3" />
+      </button>
+    </th>
+  );
+}
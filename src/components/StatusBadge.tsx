@@ -0,0 +1,23 @@
+import { ProductStatus } from '../types/database';
+
+const colors: Record<ProductStatus, string> = {
+  in_stock: 'bg-green-100 text-green-800',
+  low_stock: 'bg-amber-100 text-amber-800',
+  out_of_stock: 'bg-red-100 text-red-800',
+  overstock: 'bg-purple-100 text-purple-800',
+};
+
+const labels: Record<ProductStatus, string> = {
+  in_stock: 'In Stock',
+  low_stock: 'Low Stock',
+  out_of_stock: 'Out of Stock',
+  overstock: 'Overstock',
+};
+
+export default function StatusBadge({ status }: { status: ProductStatus }) {
+  return (
+    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${colors[status]}`}>
+      {labels[status]}
+    </span>
+  );
+}
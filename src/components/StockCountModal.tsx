@@ -0,0 +1,153 @@
+import { useState, FormEvent } from 'react';
+import { X } from 'lucide-react';
+import { startStockCount } from '../lib/stockCounts';
+import { Category, Location } from '../types/database';
+
+interface StockCountModalProps {
+  locations: Location[];
+  categories: Category[];
+  onClose: () => void;
+}
+
+export default function StockCountModal({ locations, categories, onClose }: StockCountModalProps) {
+  const [formData, setFormData] = useState({
+    location_id: locations.find((l) => l.is_default)?.id || '',
+    category_id: '',
+    blind: false,
+    notes: '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await startStockCount({
+        locationId: formData.location_id,
+        categoryId: formData.category_id || null,
+        blind: formData.blind,
+        notes: formData.notes,
+      });
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start stock count');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">New Stock Count</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="location" className="block text-sm font-medium text-slate-700 mb-2">
+              Location *
+            </label>
+            <select
+              id="location"
+              value={formData.location_id}
+              onChange={(e) => setFormData({ ...formData, location_id: e.target.value })}
+              required
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            >
+              <option value="">Select a location</option>
+              {locations
+                .filter((location) => location.is_active)
+                .map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="category" className="block text-sm font-medium text-slate-700 mb-2">
+              Category
+            </label>
+            <select
+              id="category"
+              value={formData.category_id}
+              onChange={(e) => setFormData({ ...formData, category_id: e.target.value })}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            >
+              <option value="">All categories</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={formData.blind}
+              onChange={(e) => setFormData({ ...formData, blind: e.target.checked })}
+              className="mt-1 w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-slate-700">
+              Blind count
+              <span className="block text-xs text-slate-500">
+                Counters don't see system quantities until the count is submitted
+              </span>
+            </span>
+          </label>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-slate-700 mb-2">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+              placeholder="e.g., Monthly count, aisle 3"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+            >
+              {loading ? 'Starting...' : 'Start Count'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { X, Search } from 'lucide-react';
+import {
+  approveStockCount,
+  saveStockCountLines,
+  StockCountEntry,
+  submitStockCount,
+} from '../lib/stockCounts';
+import { StockCountWithDetails } from '../types/database';
+
+interface StockCountSheetModalProps {
+  stockCount: StockCountWithDetails;
+  isAdmin: boolean;
+  onClose: () => void;
+}
+
+type SheetAction = 'save' | 'submit' | 'approve';
+
+export default function StockCountSheetModal({
+  stockCount,
+  isAdmin,
+  onClose,
+}: StockCountSheetModalProps) {
+  const [counts, setCounts] = useState<Record<string, string>>(
+    Object.fromEntries(
+      stockCount.stock_count_lines.map((line) => [line.id, line.counted_quantity?.toString() ?? ''])
+    )
+  );
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const reviewing = stockCount.status === 'review';
+  const showSystem = reviewing || !stockCount.blind;
+
+  const lines = [...stockCount.stock_count_lines]
+    .sort((a, b) => a.products.sku.localeCompare(b.products.sku))
+    .filter(
+      (line) =>
+        line.products.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        line.products.sku.toLowerCase().includes(searchTerm.toLowerCase())
+    );
+
+  const countedValue = (lineId: string) => {
+    const value = counts[lineId];
+    return value === '' || value === undefined ? null : parseInt(value);
+  };
+
+  const varianceOf = (line: StockCountWithDetails['stock_count_lines'][number]) => {
+    const counted = countedValue(line.id);
+    return counted === null ? null : counted - line.system_quantity;
+  };
+
+  const countedLines = stockCount.stock_count_lines.filter((line) => countedValue(line.id) !== null);
+  const varianceLines = countedLines.filter((line) => varianceOf(line) !== 0);
+  const varianceValue = varianceLines.reduce(
+    (sum, line) => sum + (varianceOf(line) ?? 0) * line.products.average_cost,
+    0
+  );
+
+  const handleAction = async (action: SheetAction) => {
+    if (action === 'submit' && countedLines.length < stockCount.stock_count_lines.length) {
+      const uncounted = stockCount.stock_count_lines.length - countedLines.length;
+      if (!confirm(`${uncounted} products have not been counted and will not be adjusted. Submit anyway?`)) {
+        return;
+      }
+    }
+    if (
+      action === 'approve' &&
+      !confirm(`Post ${varianceLines.length} adjustments for ${stockCount.count_number}?`)
+    ) {
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+
+    try {
+      const entries: StockCountEntry[] = stockCount.stock_count_lines
+        .filter((line) => countedValue(line.id) !== line.counted_quantity)
+        .map((line) => ({ lineId: line.id, countedQuantity: countedValue(line.id) }));
+
+      if (entries.length > 0) {
+        await saveStockCountLines(stockCount.id, entries);
+      }
+      if (action === 'submit') {
+        await submitStockCount(stockCount.id);
+      } else if (action === 'approve') {
+        await approveStockCount(stockCount.id);
+      }
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save stock count');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900">
+              {reviewing ? 'Review' : 'Count'} {stockCount.count_number}
+            </h2>
+            <p className="text-sm text-slate-500">
+              {stockCount.locations.name}
+              {stockCount.categories && ` · ${stockCount.categories.name}`}
+              {stockCount.blind && ' · Blind count'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
+              <input
+                type="text"
+                placeholder="Search by name or SKU..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              />
+            </div>
+            <p className="text-sm text-slate-600 whitespace-nowrap">
+              {countedLines.length} / {stockCount.stock_count_lines.length} counted
+            </p>
+          </div>
+
+          {reviewing && (
+            <div className="bg-blue-50 border border-blue-200 px-4 py-3 rounded-lg text-sm text-blue-900">
+              {varianceLines.length} products with a variance · net value{' '}
+              <span className="font-semibold">
+                {varianceValue < 0 ? '-' : ''}${Math.abs(varianceValue).toFixed(2)}
+              </span>
+            </div>
+          )}
+
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Product
+                  </th>
+                  {showSystem && (
+                    <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                      System
+                    </th>
+                  )}
+                  <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Counted
+                  </th>
+                  {reviewing && (
+                    <>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                        Variance
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                        Value
+                      </th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {lines.map((line) => {
+                  const variance = varianceOf(line);
+
+                  return (
+                    <tr key={line.id} className={variance ? 'bg-amber-50' : undefined}>
+                      <td className="px-4 py-3 text-sm font-medium text-slate-900">
+                        {line.products.name}
+                        <p className="text-xs text-slate-500">{line.products.sku}</p>
+                      </td>
+                      {showSystem && (
+                        <td className="px-4 py-3 text-sm text-slate-600">{line.system_quantity}</td>
+                      )}
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          min="0"
+                          value={counts[line.id] ?? ''}
+                          onChange={(e) => setCounts({ ...counts, [line.id]: e.target.value })}
+                          className="w-24 px-3 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                          placeholder="-"
+                        />
+                      </td>
+                      {reviewing && (
+                        <>
+                          <td
+                            className={`px-4 py-3 text-sm font-medium ${
+                              variance === null || variance === 0
+                                ? 'text-slate-500'
+                                : variance > 0
+                                  ? 'text-green-700'
+                                  : 'text-red-700'
+                            }`}
+                          >
+                            {variance === null ? 'Not counted' : variance > 0 ? `+${variance}` : variance}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-slate-600">
+                            {variance ? `$${(variance * line.products.average_cost).toFixed(2)}` : '-'}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={() => handleAction('save')}
+              disabled={loading}
+              className="flex-1 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50 transition"
+            >
+              Save Counts
+            </button>
+            {reviewing ? (
+              <button
+                type="button"
+                onClick={() => handleAction('approve')}
+                disabled={loading || !isAdmin}
+                title={isAdmin ? undefined : 'Only admins can approve stock counts'}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+              >
+                {loading ? 'Saving...' : 'Approve & Adjust'}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => handleAction('submit')}
+                disabled={loading}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+              >
+                {loading ? 'Saving...' : 'Submit for Review'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState, FormEvent, useEffect } from 'react';
+import { X, Unlock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { getAvailableQuantity, placeStockHold, releaseStockHold } from '../lib/stock';
+import { Location, ProductWithStock, StockHoldWithDetails } from '../types/database';
+
+interface StockHoldModalProps {
+  product: ProductWithStock;
+  locations: Location[];
+  onClose: () => void;
+}
+
+export default function StockHoldModal({ product, locations, onClose }: StockHoldModalProps) {
+  const [holds, setHolds] = useState<StockHoldWithDetails[]>([]);
+  const [formData, setFormData] = useState({
+    location_id: locations.find((l) => l.is_default)?.id || '',
+    quantity: '',
+    reason: '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadHolds(product.id);
+  }, [product.id]);
+
+  const loadHolds = async (productId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('stock_holds')
+        .select('*, locations(*)')
+        .eq('product_id', productId)
+        .is('released_at', null)
+        .order('created_at');
+
+      if (error) throw error;
+      setHolds(data || []);
+    } catch (error) {
+      console.error('Error loading stock holds:', error);
+    }
+  };
+
+  const handleRelease = async (hold: StockHoldWithDetails) => {
+    if (!confirm(`Release the hold on ${hold.quantity} units at ${hold.locations.name}?`)) return;
+
+    try {
+      await releaseStockHold(hold.id);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to release hold');
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await placeStockHold({
+        productId: product.id,
+        locationId: formData.location_id || null,
+        quantity: parseInt(formData.quantity),
+        reason: formData.reason,
+      });
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to place hold');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const locationStock = product.product_stock.find((s) => s.location_id === formData.location_id);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">Hold Stock: {product.name}</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <span className="block text-sm font-medium text-slate-700 mb-2">Active Holds</span>
+            {holds.length === 0 ? (
+              <p className="text-sm text-slate-500 border border-dashed border-slate-300 rounded-lg px-4 py-3">
+                No active holds
+              </p>
+            ) : (
+              <div className="divide-y divide-slate-200 border border-slate-200 rounded-lg">
+                {holds.map((hold) => (
+                  <div key={hold.id} className="flex items-center justify-between px-4 py-2">
+                    <div>
+                      <p className="text-sm font-medium text-slate-900">
+                        {hold.quantity} at {hold.locations.name}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {hold.reason || 'No reason given'} ·{' '}
+                        {new Date(hold.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRelease(hold)}
+                      title="Release hold"
+                      className="text-green-600 hover:text-green-800 transition"
+                    >
+                      <Unlock className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="location" className="block text-sm font-medium text-slate-700 mb-2">
+              Location *
+            </label>
+            <select
+              id="location"
+              value={formData.location_id}
+              onChange={(e) => setFormData({ ...formData, location_id: e.target.value })}
+              required
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            >
+              <option value="">Select a location</option>
+              {locations
+                .filter((location) => location.is_active)
+                .map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">
+              Available here: {locationStock ? getAvailableQuantity(locationStock) : 0}
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="quantity" className="block text-sm font-medium text-slate-700 mb-2">
+              Quantity *
+            </label>
+            <input
+              id="quantity"
+              type="number"
+              min="1"
+              value={formData.quantity}
+              onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+              required
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              placeholder="Units to hold"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="reason" className="block text-sm font-medium text-slate-700 mb-2">
+              Reason
+            </label>
+            <input
+              id="reason"
+              type="text"
+              value={formData.reason}
+              onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              placeholder="e.g., Set aside for customer pickup"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+            >
+              {loading ? 'Placing...' : 'Place Hold'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { StockLevelPoint } from '../lib/stock';
+
+interface StockLevelChartProps {
+  points: StockLevelPoint[];
+  reorderPoint: number;
+}
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString();
+
+export default function StockLevelChart({ points, reorderPoint }: StockLevelChartProps) {
+  if (points.length === 0) {
+    return <p className="text-sm text-slate-500 py-12 text-center">No movements recorded yet</p>;
+  }
+
+  // Carry the last level through to today
+  const data = [...points, { time: Date.now(), quantity: points[points.length - 1].quantity }];
+
+  return (
+    <ResponsiveContainer width="100%" height={260}>
+      <AreaChart data={data} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={formatDate}
+          tick={{ fontSize: 12, fill: '#64748b' }}
+        />
+        <YAxis allowDecimals={false} tick={{ fontSize: 12, fill: '#64748b' }} width={48} />
+        <Tooltip
+          labelFormatter={(time) => new Date(time as number).toLocaleString()}
+          formatter={(value) => [value, 'On hand']}
+        />
+        <ReferenceLine
+          y={reorderPoint}
+          stroke="#d97706"
+          strokeDasharray="4 4"
+          label={{ value: 'Reorder point', position: 'insideTopRight', fontSize: 12, fill: '#d97706' }}
+        />
+        <Area
+          type="stepAfter"
+          dataKey="quantity"
+          stroke="#2563eb"
+          fill="#dbeafe"
+          isAnimationActive={false}
+        />
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+}
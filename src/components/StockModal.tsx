@@ -1,62 +1,227 @@
-import { useState, FormEvent } from 'react';
+import { useEffect, useState, FormEvent } from 'react';
 import { X } from 'lucide-react';
+import {
+  ADJUSTMENT_DIRECTIONS,
+  getAvailableQuantity,
+  InsufficientStockError,
+  REASON_LABELS,
+  recordStockMovement,
+} from '../lib/stock';
 import { supabase } from '../lib/supabase';
-import { Product } from '../types/database';
+import { sortLotsFefo } from '../lib/lots';
+import { fetchProductByCode } from '../lib/barcodes';
+import { AdjustmentReason, Location, ProductWithLots, SerialNumber } from '../types/database';
+import ScanInput from './ScanInput';
+import ProductPicker from './ProductPicker';
 
 interface StockModalProps {
-  products: Product[];
-  userId: string;
+  locations: Location[];
+  initialProductId?: string;
+  onCreateProduct?: (code: string) => void;
   onClose: () => void;
 }
 
-export default function StockModal({ products, userId, onClose }: StockModalProps) {
+export default function StockModal({
+  locations,
+  initialProductId,
+  onCreateProduct,
+  onClose,
+}: StockModalProps) {
   const [formData, setFormData] = useState({
-    product_id: '',
-    type: 'IN' as 'IN' | 'OUT',
+    product_id: initialProductId ?? '',
+    location_id: locations.find((l) => l.is_default)?.id || '',
+    type: 'IN' as 'IN' | 'OUT' | 'ADJUST',
+    reason: '' as AdjustmentReason | '',
+    direction: 'remove' as 'add' | 'remove',
     quantity: '',
+    unit_cost: '',
+    lot_id: '',
+    lot_number: '',
+    expiry_date: '',
+    serial_numbers: '',
     notes: '',
   });
+  const [selectedProduct, setSelectedProduct] = useState<ProductWithLots | null>(null);
+  const [serialsInStock, setSerialsInStock] = useState<SerialNumber[]>([]);
+  const [selectedSerials, setSelectedSerials] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
+  const serialized = selectedProduct?.track_serials ?? false;
+
+  useEffect(() => {
+    if (formData.product_id) {
+      loadProduct(formData.product_id);
+    } else {
+      setSelectedProduct(null);
+    }
+  }, [formData.product_id]);
+
+  // Stock, lots and locations are read for the chosen product only
+  const loadProduct = async (productId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*, categories(*), product_stock(*, locations(*)), stock_lots(*)')
+        .eq('id', productId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSelectedProduct(data);
+    } catch (error) {
+      console.error('Error loading product:', error);
+    }
+  };
+
+  useEffect(() => {
+    setSelectedSerials([]);
+    if (serialized && formData.location_id) {
+      loadSerialsInStock(formData.product_id, formData.location_id);
+    } else {
+      setSerialsInStock([]);
+    }
+  }, [serialized, formData.product_id, formData.location_id]);
+
+  const loadSerialsInStock = async (productId: string, locationId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('serial_numbers')
+        .select('*')
+        .eq('product_id', productId)
+        .eq('location_id', locationId)
+        .eq('status', 'in_stock')
+        .order('serial_number');
+
+      if (error) throw error;
+      setSerialsInStock(data || []);
+    } catch (error) {
+      console.error('Error loading serial numbers:', error);
+    }
+  };
+
+  // Adjustments add or remove stock depending on their reason
+  const adjustDirection =
+    formData.type === 'ADJUST' && formData.reason
+      ? ADJUSTMENT_DIRECTIONS[formData.reason] ?? formData.direction
+      : null;
+  const incoming = formData.type === 'IN' || adjustDirection === 'add';
+  const outgoing = formData.type === 'OUT' || adjustDirection === 'remove';
+
+  const enteredSerials = formData.serial_numbers
+    .split('\n')
+    .map((serial) => serial.trim())
+    .filter(Boolean);
+
+  const handleScan = async (code: string) => {
+    let product;
+    try {
+      product = await fetchProductByCode(code);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up the code');
+      return;
+    }
+
+    if (product) {
+      setError('');
+      setFormData((current) => ({ ...current, product_id: product.id, lot_id: '' }));
+    } else if (
+      onCreateProduct &&
+      confirm(`No product matches "${code}". Create a new product with this barcode?`)
+    ) {
+      onCreateProduct(code);
+    } else {
+      setError(`No product matches "${code}"`);
+    }
+  };
+
+  const toggleSerial = (serialNumber: string) => {
+    setSelectedSerials(
+      selectedSerials.includes(serialNumber)
+        ? selectedSerials.filter((s) => s !== serialNumber)
+        : [...selectedSerials, serialNumber]
+    );
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
 
     try {
-      const quantity = parseInt(formData.quantity);
-      const product = products.find((p) => p.id === formData.product_id);
+      const product = selectedProduct?.id === formData.product_id ? selectedProduct : null;
 
       if (!product) {
-        throw new Error('Product not found');
+        throw new Error('Choose a product');
       }
 
-      if (formData.type === 'OUT' && product.quantity < quantity) {
-        throw new Error('Insufficient stock quantity');
+      const quantity = parseInt(formData.quantity);
+      const stock = product.product_stock.find((s) => s.location_id === formData.location_id);
+      const available = stock ? getAvailableQuantity(stock) : 0;
+
+      if (formData.type === 'OUT' && quantity > available) {
+        throw new InsufficientStockError(available, quantity);
       }
 
-      const { error: txError } = await supabase.from('stock_transactions').insert([
-        {
-          product_id: formData.product_id,
-          user_id: userId,
-          quantity,
-          type: formData.type,
-          notes: formData.notes,
-        },
-      ]);
+      // Adjustments record what is physically there, so they may eat into reserved stock
+      if (adjustDirection === 'remove' && quantity > (stock?.quantity ?? 0)) {
+        throw new InsufficientStockError(stock?.quantity ?? 0, quantity);
+      }
 
-      if (txError) throw txError;
+      const lot = product.stock_lots.find((l) => l.id === formData.lot_id);
 
-      const newQuantity =
-        formData.type === 'IN' ? product.quantity + quantity : product.quantity - quantity;
+      if (outgoing && lot && quantity > lot.quantity) {
+        throw new InsufficientStockError(lot.quantity, quantity);
+      }
 
-      const { error: updateError } = await supabase
-        .from('products')
-        .update({ quantity: newQuantity })
-        .eq('id', formData.product_id);
+      // Adjustments need not name serials: removals write off the longest-held units and
+      // additions stay untracked
+      if (
+        product.track_serials &&
+        incoming &&
+        (formData.type === 'IN' || enteredSerials.length > 0)
+      ) {
+        if (enteredSerials.length !== quantity) {
+          throw new Error(
+            `Enter one serial number per unit: ${enteredSerials.length} entered for ${quantity} units`
+          );
+        }
+        const duplicate = enteredSerials.find((serial, i) => enteredSerials.indexOf(serial) !== i);
+        if (duplicate) {
+          throw new Error(`Serial number ${duplicate} is entered twice`);
+        }
+      }
 
-      if (updateError) throw updateError;
+      if (
+        product.track_serials &&
+        outgoing &&
+        (formData.type === 'OUT' || selectedSerials.length > 0)
+      ) {
+        const untracked = Math.max((stock?.quantity ?? 0) - serialsInStock.length, 0);
+        const required = Math.max(quantity - untracked, 0);
+        if (selectedSerials.length < required || selectedSerials.length > quantity) {
+          throw new Error(`Select ${required} serial numbers for this movement`);
+        }
+      }
+
+      const serialNumbers = incoming ? enteredSerials : selectedSerials;
+
+      await recordStockMovement({
+        productId: product.id,
+        locationId: formData.location_id || null,
+        type: formData.type,
+        quantity: adjustDirection === 'remove' ? -quantity : quantity,
+        unitCost:
+          formData.type === 'IN' && formData.unit_cost ? parseFloat(formData.unit_cost) : undefined,
+        lotId: outgoing && lot ? lot.id : undefined,
+        lotNumber: incoming && formData.lot_number ? formData.lot_number : undefined,
+        expiryDate: incoming && formData.expiry_date ? formData.expiry_date : undefined,
+        serialNumbers:
+          product.track_serials && (formData.type !== 'ADJUST' || serialNumbers.length > 0)
+            ? serialNumbers
+            : undefined,
+        reason: formData.type === 'ADJUST' && formData.reason ? formData.reason : undefined,
+        notes: formData.notes,
+      });
 
       onClose();
     } catch (err) {
@@ -66,7 +231,16 @@ export default function StockModal({ products, userId, onClose }: StockModalProp
     }
   };
 
-  const selectedProduct = products.find((p) => p.id === formData.product_id);
+  const locationStock = selectedProduct?.product_stock.find(
+    (s) => s.location_id === formData.location_id
+  );
+  const locationLots = sortLotsFefo(
+    selectedProduct?.stock_lots.filter(
+      (lot) => lot.location_id === formData.location_id && lot.quantity > 0
+    ) ?? []
+  );
+  const skipsEarlierLot =
+    formData.lot_id !== '' && locationLots.length > 0 && locationLots[0].id !== formData.lot_id;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -92,26 +266,54 @@ export default function StockModal({ products, userId, onClose }: StockModalProp
             <label htmlFor="product" className="block text-sm font-medium text-slate-700 mb-2">
               Product *
             </label>
-            <select
+            <div className="mb-2">
+              <ScanInput onScan={handleScan} autoFocus />
+            </div>
+            <ProductPicker
               id="product"
-              value={formData.product_id}
-              onChange={(e) => setFormData({ ...formData, product_id: e.target.value })}
+              selected={selectedProduct}
+              onSelect={(product) =>
+                setFormData({ ...formData, product_id: product?.id ?? '', lot_id: '' })
+              }
+            />
+          </div>
+
+          <div>
+            <label htmlFor="location" className="block text-sm font-medium text-slate-700 mb-2">
+              Location *
+            </label>
+            <select
+              id="location"
+              value={formData.location_id}
+              onChange={(e) => setFormData({ ...formData, location_id: e.target.value, lot_id: '' })}
               required
               className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
             >
-              <option value="">Select a product</option>
-              {products.map((product) => (
-                <option key={product.id} value={product.id}>
-                  {product.name} (Current: {product.quantity})
-                </option>
-              ))}
+              <option value="">Select a location</option>
+              {locations
+                .filter((location) => location.is_active)
+                .map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
             </select>
           </div>
 
           {selectedProduct && (
             <div className="bg-blue-50 border border-blue-200 px-4 py-3 rounded-lg">
               <p className="text-sm text-blue-900">
-                Current Stock: <span className="font-semibold">{selectedProduct.quantity}</span>
+                Available at Location:{' '}
+                <span className="font-semibold">
+                  {locationStock ? getAvailableQuantity(locationStock) : 0}
+                </span>
+              </p>
+              <p className="text-xs text-blue-700 mt-1">
+                On hand {locationStock?.quantity ?? 0} · Reserved {locationStock?.reserved ?? 0}
+              </p>
+              <p className="text-xs text-blue-700 mt-1">
+                Total across locations: {selectedProduct.quantity} on hand,{' '}
+                {selectedProduct.available_quantity} available
               </p>
             </div>
           )}
@@ -123,15 +325,61 @@ export default function StockModal({ products, userId, onClose }: StockModalProp
             <select
               id="type"
               value={formData.type}
-              onChange={(e) => setFormData({ ...formData, type: e.target.value as 'IN' | 'OUT' })}
+              onChange={(e) =>
+                setFormData({ ...formData, type: e.target.value as 'IN' | 'OUT' | 'ADJUST' })
+              }
               required
               className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
             >
               <option value="IN">Stock In (Add)</option>
               <option value="OUT">Stock Out (Remove)</option>
+              <option value="ADJUST">Adjustment</option>
             </select>
           </div>
 
+          {formData.type === 'ADJUST' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="reason" className="block text-sm font-medium text-slate-700 mb-2">
+                  Reason *
+                </label>
+                <select
+                  id="reason"
+                  value={formData.reason}
+                  onChange={(e) =>
+                    setFormData({ ...formData, reason: e.target.value as AdjustmentReason | '' })
+                  }
+                  required
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                >
+                  <option value="">Select a reason</option>
+                  {(Object.keys(ADJUSTMENT_DIRECTIONS) as AdjustmentReason[]).map((reason) => (
+                    <option key={reason} value={reason}>
+                      {REASON_LABELS[reason]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="direction" className="block text-sm font-medium text-slate-700 mb-2">
+                  Direction
+                </label>
+                <select
+                  id="direction"
+                  value={adjustDirection ?? formData.direction}
+                  onChange={(e) =>
+                    setFormData({ ...formData, direction: e.target.value as 'add' | 'remove' })
+                  }
+                  disabled={formData.reason !== 'correction'}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-slate-100 disabled:cursor-not-allowed"
+                >
+                  <option value="add">Add stock</option>
+                  <option value="remove">Remove stock</option>
+                </select>
+              </div>
+            </div>
+          )}
+
           <div>
             <label htmlFor="quantity" className="block text-sm font-medium text-slate-700 mb-2">
               Quantity *
@@ -148,6 +396,126 @@ export default function StockModal({ products, userId, onClose }: StockModalProp
             />
           </div>
 
+          {formData.type === 'IN' && (
+            <div>
+              <label htmlFor="unit_cost" className="block text-sm font-medium text-slate-700 mb-2">
+                Unit Cost ($)
+              </label>
+              <input
+                id="unit_cost"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.unit_cost}
+                onChange={(e) => setFormData({ ...formData, unit_cost: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                placeholder={
+                  selectedProduct
+                    ? `Average cost: ${selectedProduct.average_cost.toFixed(2)}`
+                    : '0.00'
+                }
+              />
+            </div>
+          )}
+
+          {incoming && selectedProduct?.track_lots && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="lot_number" className="block text-sm font-medium text-slate-700 mb-2">
+                  Lot Number {formData.type === 'IN' && '*'}
+                </label>
+                <input
+                  id="lot_number"
+                  type="text"
+                  value={formData.lot_number}
+                  onChange={(e) => setFormData({ ...formData, lot_number: e.target.value })}
+                  required={formData.type === 'IN'}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  placeholder="e.g., L2404-01"
+                />
+              </div>
+              <div>
+                <label htmlFor="expiry_date" className="block text-sm font-medium text-slate-700 mb-2">
+                  Expiry Date
+                </label>
+                <input
+                  id="expiry_date"
+                  type="date"
+                  value={formData.expiry_date}
+                  onChange={(e) => setFormData({ ...formData, expiry_date: e.target.value })}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                />
+              </div>
+            </div>
+          )}
+
+          {outgoing && locationLots.length > 0 && (
+            <div>
+              <label htmlFor="lot" className="block text-sm font-medium text-slate-700 mb-2">
+                Lot
+              </label>
+              <select
+                id="lot"
+                value={formData.lot_id}
+                onChange={(e) => setFormData({ ...formData, lot_id: e.target.value })}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="">Auto (first expiring first)</option>
+                {locationLots.map((lot) => (
+                  <option key={lot.id} value={lot.id}>
+                    {lot.lot_number} · {lot.expiry_date ?? 'No expiry'} ({lot.quantity})
+                  </option>
+                ))}
+              </select>
+              {skipsEarlierLot && (
+                <p className="text-xs text-amber-700 mt-1">
+                  Lot {locationLots[0].lot_number} expires sooner and should be issued first.
+                </p>
+              )}
+            </div>
+          )}
+
+          {serialized && incoming && (
+            <div>
+              <label htmlFor="serial_numbers" className="block text-sm font-medium text-slate-700 mb-2">
+                Serial Numbers {formData.type === 'IN' && '*'}
+              </label>
+              <textarea
+                id="serial_numbers"
+                value={formData.serial_numbers}
+                onChange={(e) => setFormData({ ...formData, serial_numbers: e.target.value })}
+                rows={4}
+                required={formData.type === 'IN'}
+                className="w-full px-4 py-2 font-mono text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+                placeholder="Scan or type one serial number per line"
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {enteredSerials.length} of {formData.quantity || 0} entered
+              </p>
+            </div>
+          )}
+
+          {serialized && outgoing && serialsInStock.length > 0 && (
+            <div>
+              <p className="block text-sm font-medium text-slate-700 mb-2">
+                Serial Numbers ({selectedSerials.length} selected)
+              </p>
+              <div className="max-h-40 overflow-y-auto border border-slate-300 rounded-lg divide-y divide-slate-200">
+                {serialsInStock.map((serial) => (
+                  <label key={serial.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={selectedSerials.includes(serial.serial_number)}
+                      onChange={() => toggleSerial(serial.serial_number)}
+                      className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="font-mono text-slate-900">{serial.serial_number}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
             <label htmlFor="notes" className="block text-sm font-medium text-slate-700 mb-2">
               Notes
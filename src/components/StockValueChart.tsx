@@ -0,0 +1,52 @@
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { formatBucket, MovementBucket, StockValuePoint } from '../lib/analytics';
+
+interface StockValueChartProps {
+  points: StockValuePoint[];
+  bucket: MovementBucket;
+}
+
+const formatValue = (value: number) => `$${value.toFixed(2)}`;
+
+export default function StockValueChart({ points, bucket }: StockValueChartProps) {
+  if (points.length === 0) {
+    return <p className="text-sm text-slate-500 py-12 text-center">No stock value recorded</p>;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={260}>
+      <AreaChart data={points} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+        <XAxis
+          dataKey="bucket"
+          tickFormatter={(value: string) => formatBucket(value, bucket)}
+          tick={{ fontSize: 12, fill: '#64748b' }}
+        />
+        <YAxis
+          tickFormatter={(value: number) => `$${Math.round(value).toLocaleString()}`}
+          tick={{ fontSize: 12, fill: '#64748b' }}
+          width={72}
+        />
+        <Tooltip
+          labelFormatter={(value) => formatBucket(value as string, bucket)}
+          formatter={(value) => [formatValue(Number(value)), 'Stock value']}
+        />
+        <Area
+          type="monotone"
+          dataKey="value"
+          stroke="#059669"
+          fill="#d1fae5"
+          isAnimationActive={false}
+        />
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,53 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+
+interface TopMoversChartProps {
+  movers: { name: string; stock_in: number; stock_out: number }[];
+}
+
+// Horizontal stacked bars, busiest first
+export default function TopMoversChart({ movers }: TopMoversChartProps) {
+  if (movers.length === 0) {
+    return <p className="text-sm text-slate-500 py-12 text-center">No movements in this period</p>;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={Math.max(160, movers.length * 36 + 40)}>
+      <BarChart data={movers} layout="vertical" margin={{ top: 0, right: 10, bottom: 0, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" horizontal={false} />
+        <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12, fill: '#64748b' }} />
+        <YAxis
+          type="category"
+          dataKey="name"
+          width={140}
+          tick={{ fontSize: 12, fill: '#334155' }}
+          tickFormatter={(name: string) => (name.length > 20 ? `${name.slice(0, 19)}…` : name)}
+        />
+        <Tooltip />
+        <Legend wrapperStyle={{ fontSize: 12 }} />
+        <Bar
+          dataKey="stock_in"
+          name="Stock In"
+          stackId="movement"
+          fill="#16a34a"
+          isAnimationActive={false}
+        />
+        <Bar
+          dataKey="stock_out"
+          name="Stock Out"
+          stackId="movement"
+          fill="#dc2626"
+          isAnimationActive={false}
+        />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,29 @@
+import { TrendingUp, TrendingDown, SlidersHorizontal } from 'lucide-react';
+import { StockTransactionType } from '../types/database';
+
+export default function TransactionTypeBadge({ type }: { type: StockTransactionType }) {
+  if (type === 'ADJUST') {
+    return (
+      <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+        <SlidersHorizontal className="w-3 h-3" />
+        Adjustment
+      </span>
+    );
+  }
+
+  if (type === 'IN') {
+    return (
+      <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+        <TrendingUp className="w-3 h-3" />
+        Stock In
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-800">
+      <TrendingDown className="w-3 h-3" />
+      Stock Out
+    </span>
+  );
+}
@@ -0,0 +1,224 @@
+import { useEffect, useState, FormEvent } from 'react';
+import { X, ArrowRight } from 'lucide-react';
+import { dispatchStockTransfer, getAvailableQuantity } from '../lib/stock';
+import { supabase } from '../lib/supabase';
+import { Location, ProductWithStock } from '../types/database';
+import ProductPicker from './ProductPicker';
+
+interface TransferModalProps {
+  locations: Location[];
+  onClose: () => void;
+}
+
+export default function TransferModal({ locations, onClose }: TransferModalProps) {
+  const [formData, setFormData] = useState({
+    product_id: '',
+    from_location_id: '',
+    to_location_id: '',
+    quantity: '',
+    notes: '',
+    receive: true,
+  });
+  const [selectedProduct, setSelectedProduct] = useState<ProductWithStock | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (formData.product_id) {
+      loadProduct(formData.product_id);
+    } else {
+      setSelectedProduct(null);
+    }
+  }, [formData.product_id]);
+
+  const loadProduct = async (productId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*, categories(*), product_stock(*, locations(*))')
+        .eq('id', productId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSelectedProduct(data);
+    } catch (error) {
+      console.error('Error loading product:', error);
+    }
+  };
+
+  const activeLocations = locations.filter((location) => location.is_active);
+  const stockAt = (locationId: string) => {
+    const stock = selectedProduct?.product_stock.find((s) => s.location_id === locationId);
+    return stock ? getAvailableQuantity(stock) : 0;
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (!formData.product_id) {
+        throw new Error('Choose a product');
+      }
+
+      if (formData.from_location_id === formData.to_location_id) {
+        throw new Error('Choose two different locations');
+      }
+
+      await dispatchStockTransfer({
+        productId: formData.product_id,
+        fromLocationId: formData.from_location_id,
+        toLocationId: formData.to_location_id,
+        quantity: parseInt(formData.quantity),
+        notes: formData.notes,
+        receive: formData.receive,
+      });
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to transfer stock');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg">
+        <div className="border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">Transfer Stock</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="product" className="block text-sm font-medium text-slate-700 mb-2">
+              Product *
+            </label>
+            <ProductPicker
+              id="product"
+              selected={selectedProduct}
+              onSelect={(product) => setFormData({ ...formData, product_id: product?.id ?? '' })}
+            />
+          </div>
+
+          <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-3">
+            <div>
+              <label htmlFor="from_location" className="block text-sm font-medium text-slate-700 mb-2">
+                From *
+              </label>
+              <select
+                id="from_location"
+                value={formData.from_location_id}
+                onChange={(e) => setFormData({ ...formData, from_location_id: e.target.value })}
+                required
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="">Select</option>
+                {activeLocations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                    {selectedProduct && ` (${stockAt(location.id)})`}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <ArrowRight className="w-5 h-5 text-slate-400 mb-2.5" />
+
+            <div>
+              <label htmlFor="to_location" className="block text-sm font-medium text-slate-700 mb-2">
+                To *
+              </label>
+              <select
+                id="to_location"
+                value={formData.to_location_id}
+                onChange={(e) => setFormData({ ...formData, to_location_id: e.target.value })}
+                required
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="">Select</option>
+                {activeLocations
+                  .filter((location) => location.id !== formData.from_location_id)
+                  .map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="quantity" className="block text-sm font-medium text-slate-700 mb-2">
+              Quantity *
+            </label>
+            <input
+              id="quantity"
+              type="number"
+              min="1"
+              value={formData.quantity}
+              onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+              required
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              placeholder="Enter quantity"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="block text-sm font-medium text-slate-700 mb-2">
+              Notes
+            </label>
+            <textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+              placeholder="Transfer notes..."
+            />
+          </div>
+
+          <label className="flex items-center gap-3 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={formData.receive}
+              onChange={(e) => setFormData({ ...formData, receive: e.target.checked })}
+              className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            Received immediately (uncheck to keep the stock in transit)
+          </label>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+            >
+              {loading ? 'Transferring...' : formData.receive ? 'Transfer Stock' : 'Dispatch Transfer'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, FormEvent } from 'react';
+import { X } from 'lucide-react';
+import { voidStockTransaction } from '../lib/stock';
+import { StockTransactionWithDetails } from '../types/database';
+
+interface VoidTransactionModalProps {
+  transaction: StockTransactionWithDetails;
+  onClose: () => void;
+}
+
+export default function VoidTransactionModal({ transaction, onClose }: VoidTransactionModalProps) {
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await voidStockTransaction(transaction.id, reason.trim());
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to void transaction');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const change = transaction.type === 'OUT' ? -transaction.quantity : transaction.quantity;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-900">Void Transaction</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div className="bg-slate-50 border border-slate-200 rounded-lg px-4 py-3 text-sm text-slate-700">
+            <p className="font-medium text-slate-900">{transaction.products.name}</p>
+            <p>
+              {change > 0 && '+'}
+              {change} at {transaction.locations.name} on{' '}
+              {new Date(transaction.created_at).toLocaleDateString()}
+            </p>
+            <p className="text-xs text-slate-500 mt-2">
+              A compensating movement of {change > 0 ? '' : '+'}
+              {-change} will be recorded and linked to this one.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="reason" className="block text-sm font-medium text-slate-700 mb-2">
+              Reason *
+            </label>
+            <textarea
+              id="reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+              rows={3}
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+              placeholder="e.g., Entered 100 instead of 10"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !reason.trim()}
+              className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white px-4 py-2 rounded-lg transition"
+            >
+              {loading ? 'Voiding...' : 'Void Transaction'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { useSearchParams } from 'react-router-dom';
+
+// Query string state that survives reloads and can be shared as a link
+export function useQueryParams(): [URLSearchParams, (updates: Record<string, string | null>) => void] {
+  const [params, setSearchParams] = useSearchParams();
+
+  const setParams = (updates: Record<string, string | null>) => {
+    setSearchParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+
+        for (const [key, value] of Object.entries(updates)) {
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+        }
+
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  return [params, setParams];
+}
@@ -0,0 +1,121 @@
+import { supabase } from './supabase';
+
+export type MovementBucket = 'day' | 'week' | 'month';
+
+export const MOVEMENT_BUCKETS: { bucket: MovementBucket; label: string }[] = [
+  { bucket: 'day', label: 'Daily' },
+  { bucket: 'week', label: 'Weekly' },
+  { bucket: 'month', label: 'Monthly' },
+];
+
+export const TOP_MOVERS_LIMIT = 8;
+
+// Timestamps as returned by getDateRangeBounds, end exclusive
+export interface AnalyticsRange {
+  start: string;
+  end: string;
+  locationId: string | null;
+}
+
+export interface MovementVolume {
+  bucket: string;
+  stock_in: number;
+  stock_out: number;
+}
+
+export interface ProductMovement {
+  product_id: string;
+  name: string;
+  sku: string;
+  stock_in: number;
+  stock_out: number;
+}
+
+export interface CategoryMovement {
+  category_id: string | null;
+  name: string;
+  stock_in: number;
+  stock_out: number;
+}
+
+export interface StockValuePoint {
+  bucket: string;
+  value: number;
+}
+
+// Keeps a chart to a readable number of bars for the span chosen
+export function getDefaultBucket(start: string, end: string): MovementBucket {
+  const days = (new Date(end).getTime() - new Date(start).getTime()) / 86_400_000;
+  if (days <= 31) return 'day';
+  if (days <= 183) return 'week';
+  return 'month';
+}
+
+// Buckets come back as the YYYY-MM-DD they start on
+export function formatBucket(value: string, bucket: MovementBucket): string {
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+
+  return bucket === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+// Buckets follow the browser's calendar rather than the server's
+const timeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export async function getMovementVolume(
+  range: AnalyticsRange,
+  bucket: MovementBucket
+): Promise<MovementVolume[]> {
+  const { data, error } = await supabase.rpc('stock_movement_volume', {
+    p_from: range.start,
+    p_to: range.end,
+    p_bucket: bucket,
+    p_location_id: range.locationId,
+    p_time_zone: timeZone(),
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getTopProducts(range: AnalyticsRange): Promise<ProductMovement[]> {
+  const { data, error } = await supabase.rpc('top_moving_products', {
+    p_from: range.start,
+    p_to: range.end,
+    p_limit: TOP_MOVERS_LIMIT,
+    p_location_id: range.locationId,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getTopCategories(range: AnalyticsRange): Promise<CategoryMovement[]> {
+  const { data, error } = await supabase.rpc('top_moving_categories', {
+    p_from: range.start,
+    p_to: range.end,
+    p_limit: TOP_MOVERS_LIMIT,
+    p_location_id: range.locationId,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getStockValueTrend(
+  range: AnalyticsRange,
+  bucket: MovementBucket
+): Promise<StockValuePoint[]> {
+  const { data, error } = await supabase.rpc('stock_value_trend', {
+    p_from: range.start,
+    p_to: range.end,
+    p_bucket: bucket,
+    p_location_id: range.locationId,
+    p_time_zone: timeZone(),
+  });
+
+  if (error) throw error;
+  return data || [];
+}
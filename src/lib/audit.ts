@@ -0,0 +1,64 @@
+import { AuditLogEntry, AuditTable } from '../types/database';
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  products: 'Product',
+  categories: 'Category',
+  profiles: 'User',
+};
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Bookkeeping columns that say nothing about what a user changed
+const HIDDEN_FIELDS = [
+  'id',
+  'created_at',
+  'updated_at',
+  'quantity',
+  'reserved_quantity',
+  'available_quantity',
+  'average_cost',
+  'status',
+];
+
+export function getRecordLabel(entry: AuditLogEntry): string {
+  const values = entry.new_values ?? entry.old_values ?? {};
+  const name = String(values.name ?? entry.record_id);
+  return entry.table_name === 'products' && values.sku ? `${name} (${values.sku})` : name;
+}
+
+// Updates list the changed columns; inserts and deletes list every column of the row
+export function getAuditChanges(entry: AuditLogEntry): AuditChange[] {
+  const fields =
+    entry.action === 'UPDATE'
+      ? entry.changed_fields
+      : Object.keys(entry.new_values ?? entry.old_values ?? {}).filter(
+          (field) => !HIDDEN_FIELDS.includes(field)
+        );
+
+  return fields.map((field) => ({
+    field,
+    before: entry.old_values?.[field] ?? null,
+    after: entry.new_values?.[field] ?? null,
+  }));
+}
+
+export function formatFieldName(field: string): string {
+  const name = field.replace(/_id$/, '').replace(/_/g, ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// Category ids are shown by name when the category still exists
+export function formatAuditValue(
+  field: string,
+  value: unknown,
+  categoryNames: Map<string, string>
+): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'category_id') return categoryNames.get(String(value)) ?? String(value);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+import { escapeLikePattern, quoteFilterValue } from './pagination';
+import { Product } from '../types/database';
+
+// Shape of the browser's Shape Detection API, which TypeScript's DOM types don't ship yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39', 'qr_code'];
+
+export function createBarcodeDetector(): BarcodeDetectorInstance | null {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+  return Detector ? new Detector({ formats: SCAN_FORMATS }) : null;
+}
+
+const PRODUCT_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Product label QR codes hold a link to the product's page. Labels printed before product
+// pages existed link to the product list with the SKU as its search parameter.
+function parseProductLink(code: string): { productId: string } | { code: string } {
+  try {
+    const url = new URL(code);
+    if (url.origin !== window.location.origin) return { code };
+
+    const [, page, productId] = url.pathname.split('/');
+    if (page === 'products' && PRODUCT_ID.test(productId ?? '')) return { productId };
+
+    return { code: url.searchParams.get('search') ?? code };
+  } catch {
+    return { code };
+  }
+}
+
+// A scan matches a product's barcode exactly or its SKU ignoring case
+export function findProductByCode<T extends Pick<Product, 'id' | 'sku' | 'barcode'>>(
+  products: T[],
+  code: string
+): T | undefined {
+  const link = parseProductLink(code.trim());
+  if ('productId' in link) {
+    return products.find((product) => product.id === link.productId);
+  }
+
+  const value = link.code;
+  return (
+    products.find((product) => product.barcode === value) ??
+    products.find((product) => product.sku.toLowerCase() === value.toLowerCase())
+  );
+}
+
+// Same match as findProductByCode, looked up in the database rather than a loaded list
+export async function fetchProductByCode(code: string): Promise<Product | undefined> {
+  const link = parseProductLink(code.trim());
+  let query = supabase.from('products').select('*');
+
+  if ('productId' in link) {
+    query = query.eq('id', link.productId);
+  } else {
+    const value = quoteFilterValue(link.code);
+    const pattern = quoteFilterValue(escapeLikePattern(link.code));
+    query = query.or(`barcode.eq.${value},sku.ilike.${pattern}`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return findProductByCode(data || [], code);
+}
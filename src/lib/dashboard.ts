@@ -0,0 +1,41 @@
+import { supabase } from './supabase';
+import { DashboardStats } from '../types/database';
+
+// Figures younger than this are reused instead of asking the database again
+const STATS_MAX_AGE_MS = 30_000;
+
+const statsCache = new Map<string, { stats: DashboardStats; fetchedAt: number }>();
+
+const cacheKey = (locationId: string, expiryCutoff: string) => `${locationId}|${expiryCutoff}`;
+
+// Last figures fetched for this view, however old, so the Dashboard can show them while refreshing
+export function getCachedDashboardStats(
+  locationId: string,
+  expiryCutoff: string
+): DashboardStats | null {
+  return statsCache.get(cacheKey(locationId, expiryCutoff))?.stats ?? null;
+}
+
+// Counts and totals for all locations or one, computed in the database
+export async function getDashboardStats(
+  locationId: string,
+  expiryCutoff: string
+): Promise<DashboardStats> {
+  const key = cacheKey(locationId, expiryCutoff);
+  const cached = statsCache.get(key);
+
+  if (cached && Date.now() - cached.fetchedAt < STATS_MAX_AGE_MS) {
+    return cached.stats;
+  }
+
+  const { data, error } = await supabase.rpc('dashboard_stats', {
+    p_location_id: locationId || null,
+    p_expiry_cutoff: expiryCutoff,
+  });
+
+  if (error) throw error;
+
+  const stats = data as DashboardStats;
+  statsCache.set(key, { stats, fetchedAt: Date.now() });
+  return stats;
+}
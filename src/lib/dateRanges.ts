@@ -0,0 +1,61 @@
+export type DatePreset = 'today' | 'this_week' | 'this_month' | 'last_month' | 'last_30_days';
+
+export const DATE_PRESETS: { preset: DatePreset; label: string }[] = [
+  { preset: 'today', label: 'Today' },
+  { preset: 'this_week', label: 'This Week' },
+  { preset: 'this_month', label: 'This Month' },
+  { preset: 'last_month', label: 'Last Month' },
+  { preset: 'last_30_days', label: 'Last 30 Days' },
+];
+
+// Date inputs hold local calendar days as YYYY-MM-DD
+export function toDateValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function fromDateValue(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Weeks start on Monday
+export function getPresetRange(preset: DatePreset, today = new Date()): { from: string; to: string } {
+  const year = today.getFullYear();
+  const month = today.getMonth();
+
+  switch (preset) {
+    case 'today':
+      return { from: toDateValue(today), to: toDateValue(today) };
+    case 'this_week': {
+      const monday = new Date(year, month, today.getDate() - ((today.getDay() + 6) % 7));
+      return { from: toDateValue(monday), to: toDateValue(today) };
+    }
+    case 'this_month':
+      return { from: toDateValue(new Date(year, month, 1)), to: toDateValue(today) };
+    case 'last_month':
+      return {
+        from: toDateValue(new Date(year, month - 1, 1)),
+        to: toDateValue(new Date(year, month, 0)),
+      };
+    case 'last_30_days':
+      return {
+        from: toDateValue(new Date(year, month, today.getDate() - 29)),
+        to: toDateValue(today),
+      };
+  }
+}
+
+// Inclusive calendar days to timestamps: from the start of `from` up to, not including, the day after `to`
+export function getDateRangeBounds(from: string, to: string): { start: string | null; end: string | null } {
+  let end: string | null = null;
+
+  if (to) {
+    const next = fromDateValue(to);
+    next.setDate(next.getDate() + 1);
+    end = next.toISOString();
+  }
+
+  return { start: from ? fromDateValue(from).toISOString() : null, end };
+}
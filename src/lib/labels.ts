@@ -0,0 +1,96 @@
+import { Product } from '../types/database';
+
+export type LabelSymbology = 'code128' | 'qr';
+
+export type LabelLayoutId = 'a4-24' | 'a4-14' | 'thermal-4x6';
+
+export interface LabelLayout {
+  id: LabelLayoutId;
+  name: string;
+  // Sheet and label sizes in millimetres
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+}
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  {
+    id: 'a4-24',
+    name: 'A4 sheet, 24 labels (70 × 37 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 8,
+    labelWidth: 70,
+    labelHeight: 37,
+  },
+  {
+    id: 'a4-14',
+    name: 'A4 sheet, 14 labels (99 × 38 mm)',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99,
+    labelHeight: 38,
+  },
+  {
+    id: 'thermal-4x6',
+    name: '4 × 6 in thermal label',
+    pageWidth: 101.6,
+    pageHeight: 152.4,
+    columns: 1,
+    rows: 1,
+    labelWidth: 101.6,
+    labelHeight: 152.4,
+  },
+];
+
+type LabelProduct = Pick<Product, 'id' | 'name' | 'sku' | 'barcode' | 'price'>;
+
+// Linear barcodes carry the packaging barcode when there is one, otherwise the SKU
+export function getBarcodeValue(product: LabelProduct): string {
+  return product.barcode || product.sku;
+}
+
+// QR labels open the product in the app when scanned with a phone
+export function getProductLink(product: LabelProduct): string {
+  return `${window.location.origin}/products/${product.id}`;
+}
+
+// ZPL field data with ^, ~ and _ hex-escaped, to be used after ^FH
+function zplField(value: string): string {
+  return value.replace(/[_^~]/g, (char) => `_${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// One 4 × 6 in label per copy at 203 dpi
+export function toZpl(
+  items: { product: LabelProduct; copies: number }[],
+  symbology: LabelSymbology
+): string {
+  return items
+    .filter((item) => item.copies > 0)
+    .map(({ product, copies }) => {
+      const code =
+        symbology === 'qr'
+          ? `^FO60,300^BQN,2,10^FH^FDQA,${zplField(getProductLink(product))}^FS`
+          : `^FO60,300^BY3^BCN,200,Y,N,N^FH^FD${zplField(getBarcodeValue(product))}^FS`;
+
+      return [
+        '^XA',
+        '^CI28',
+        '^PW812',
+        '^LL1218',
+        `^FO60,60^A0N,56,56^FB690,2,0,L^FH^FD${zplField(product.name)}^FS`,
+        `^FO60,190^A0N,40,40^FH^FDSKU ${zplField(product.sku)}^FS`,
+        `^FO60,240^A0N,40,40^FD$${product.price.toFixed(2)}^FS`,
+        code,
+        `^PQ${copies}`,
+        '^XZ',
+      ].join('\n');
+    })
+    .join('\n');
+}
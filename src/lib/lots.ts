@@ -0,0 +1,57 @@
+import { StockLot } from '../types/database';
+import { toDateValue } from './dateRanges';
+
+const EXPIRY_WINDOW_KEY = 'inventory.expiryWindowDays';
+const DEFAULT_EXPIRY_WINDOW_DAYS = 30;
+
+export function getExpiryWindowDays(): number {
+  const stored = parseInt(localStorage.getItem(EXPIRY_WINDOW_KEY) ?? '');
+  return Number.isNaN(stored) || stored < 0 ? DEFAULT_EXPIRY_WINDOW_DAYS : stored;
+}
+
+export function setExpiryWindowDays(days: number): void {
+  localStorage.setItem(EXPIRY_WINDOW_KEY, String(days));
+}
+
+// Last local calendar date (YYYY-MM-DD) a lot can expire on and still fall inside the window
+export function getExpiryCutoff(days: number): string {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() + days);
+  return toDateValue(cutoff);
+}
+
+export function daysUntilExpiry(expiryDate: string): number {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.round((new Date(`${expiryDate}T00:00:00`).getTime() - today.getTime()) / 86400000);
+}
+
+// Same order the database issues lots in: first expiring first, undated lots last
+export function sortLotsFefo<T extends Pick<StockLot, 'expiry_date' | 'created_at'>>(lots: T[]): T[] {
+  return [...lots].sort((a, b) => {
+    if (a.expiry_date !== b.expiry_date) {
+      if (a.expiry_date === null) return 1;
+      if (b.expiry_date === null) return -1;
+      return a.expiry_date.localeCompare(b.expiry_date);
+    }
+    return a.created_at.localeCompare(b.created_at);
+  });
+}
+
+// Splits a quantity across lots the way an automatic issue would draw it
+export function suggestLots<T extends Pick<StockLot, 'expiry_date' | 'created_at' | 'quantity'>>(
+  lots: T[],
+  quantity: number
+): { lot: T; quantity: number }[] {
+  const picks: { lot: T; quantity: number }[] = [];
+  let remaining = quantity;
+
+  for (const lot of sortLotsFefo(lots.filter((l) => l.quantity > 0))) {
+    if (remaining === 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    picks.push({ lot, quantity: take });
+    remaining -= take;
+  }
+
+  return picks;
+}
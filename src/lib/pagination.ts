@@ -0,0 +1,66 @@
+import { PostgrestError } from '@supabase/supabase-js';
+
+export const PAGE_SIZE = 50;
+
+// PostgREST caps a single response, so bulk reads go in batches of this size
+const FETCH_BATCH_SIZE = 1000;
+
+export interface SortState {
+  column: string;
+  ascending: boolean;
+}
+
+export function getPageRange(page: number, pageSize = PAGE_SIZE): [number, number] {
+  const from = (page - 1) * pageSize;
+  return [from, from + pageSize - 1];
+}
+
+// Query string values: sort is the column name, prefixed with "-" when descending
+export function parseSort(value: string | null, fallback: SortState): SortState {
+  if (!value) return fallback;
+  return value.startsWith('-')
+    ? { column: value.slice(1), ascending: false }
+    : { column: value, ascending: true };
+}
+
+export function formatSort(sort: SortState): string {
+  return sort.ascending ? sort.column : `-${sort.column}`;
+}
+
+export function parsePage(value: string | null): number {
+  const page = parseInt(value ?? '');
+  return Number.isNaN(page) || page < 1 ? 1 : page;
+}
+
+// Quote a value for a PostgREST `or` filter so commas and parentheses in it are taken literally
+export function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+// Substring match on any of the columns, for `.or(...)`
+export function buildSearchFilter(term: string, columns: string[]): string {
+  const pattern = quoteFilterValue(`%${escapeLikePattern(term)}%`);
+  return columns.map((column) => `${column}.ilike.${pattern}`).join(',');
+}
+
+// Read every row of a query in batches, for exports that must not stop at the current page
+export async function fetchAllRows<T>(
+  fetchRange: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += FETCH_BATCH_SIZE) {
+    const { data, error } = await fetchRange(from, from + FETCH_BATCH_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < FETCH_BATCH_SIZE) return rows;
+  }
+}
@@ -0,0 +1,217 @@
+import { supabase } from './supabase';
+import { toStockError } from './stock';
+import { Category, Product } from '../types/database';
+
+export type ImportField =
+  | 'name'
+  | 'sku'
+  | 'barcode'
+  | 'category'
+  | 'price'
+  | 'quantity'
+  | 'reorder_point'
+  | 'reorder_quantity'
+  | 'max_level'
+  | 'description';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'sku', label: 'SKU *', aliases: ['sku', 'item code', 'product code'] },
+  { field: 'name', label: 'Name *', aliases: ['name', 'product name', 'product', 'title'] },
+  { field: 'barcode', label: 'Barcode', aliases: ['barcode', 'ean', 'upc', 'gtin'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'category name'] },
+  { field: 'price', label: 'Price', aliases: ['price', 'unit price', 'sale price'] },
+  { field: 'quantity', label: 'Opening Quantity', aliases: ['quantity', 'qty', 'stock', 'on hand'] },
+  { field: 'reorder_point', label: 'Reorder Point', aliases: ['reorder point', 'min', 'minimum'] },
+  { field: 'reorder_quantity', label: 'Reorder Quantity', aliases: ['reorder quantity', 'reorder qty'] },
+  { field: 'max_level', label: 'Max Level', aliases: ['max level', 'max', 'maximum'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'notes'] },
+];
+
+// Column index per field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportValues = Partial<Record<ImportField, string | number>>;
+
+export interface ImportRowPreview {
+  rowNumber: number;
+  values: ImportValues;
+  action: 'create' | 'update' | 'skip';
+  errors: string[];
+}
+
+export interface ImportSummary {
+  created: number;
+  updated: number;
+}
+
+const normalize = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalize);
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(({ field, aliases }) => [
+      field,
+      normalized.findIndex((header) => aliases.includes(header)),
+    ]).filter(([, index]) => index !== -1)
+  );
+}
+
+const LOOKUP_BATCH_SIZE = 200;
+
+// New products start with the same reorder point as the products table default
+const DEFAULT_REORDER_POINT = 5;
+
+// What the preview needs to know about products the file may touch
+export type ExistingProduct = Pick<Product, 'sku' | 'barcode' | 'reorder_point' | 'max_level'>;
+
+const INTEGER_FIELDS: ImportField[] = ['quantity', 'reorder_point', 'reorder_quantity', 'max_level'];
+
+export function previewImport(
+  rows: string[][],
+  mapping: ColumnMapping,
+  context: {
+    products: ExistingProduct[];
+    categories: Pick<Category, 'name'>[];
+    createCategories: boolean;
+  }
+): ImportRowPreview[] {
+  const existingBySku = new Map(context.products.map((product) => [product.sku, product]));
+  const skuByBarcode = new Map(
+    context.products
+      .filter((product) => product.barcode)
+      .map((product) => [product.barcode as string, product.sku])
+  );
+  const categoryNames = new Set(context.categories.map((category) => category.name.toLowerCase()));
+  const firstRowBySku = new Map<string, number>();
+  const firstRowByBarcode = new Map<string, number>();
+
+  // Row 1 is the header, so data rows are numbered from 2 as in the spreadsheet
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const values: ImportValues = {};
+    const errors: string[] = [];
+
+    for (const { field } of IMPORT_FIELDS) {
+      const column = mapping[field];
+      const raw = column === undefined ? '' : (row[column] ?? '').trim();
+      if (raw === '') continue;
+
+      if (field === 'price') {
+        const price = Number(raw.replace(/^\$/, ''));
+        if (Number.isNaN(price) || price < 0) {
+          errors.push(`Price "${raw}" is not a valid amount`);
+        } else {
+          values.price = price;
+        }
+      } else if (INTEGER_FIELDS.includes(field)) {
+        const number = Number(raw);
+        if (!Number.isInteger(number) || number < 0) {
+          const label = IMPORT_FIELDS.find((f) => f.field === field)?.label;
+          errors.push(`${label} "${raw}" is not a whole number`);
+        } else {
+          values[field] = number;
+        }
+      } else {
+        values[field] = raw;
+      }
+    }
+
+    const sku = values.sku as string | undefined;
+    const existing = sku !== undefined ? existingBySku.get(sku) : undefined;
+    const exists = existing !== undefined;
+
+    if (!sku) {
+      errors.push('SKU is missing');
+    } else if (firstRowBySku.has(sku)) {
+      errors.push(`Duplicate SKU ${sku} (also on row ${firstRowBySku.get(sku)})`);
+    } else {
+      firstRowBySku.set(sku, rowNumber);
+    }
+
+    // Barcodes are unique across products
+    const barcode = values.barcode as string | undefined;
+    if (barcode !== undefined) {
+      const owner = skuByBarcode.get(barcode);
+
+      if (firstRowByBarcode.has(barcode)) {
+        errors.push(`Duplicate barcode ${barcode} (also on row ${firstRowByBarcode.get(barcode)})`);
+      } else {
+        firstRowByBarcode.set(barcode, rowNumber);
+      }
+
+      if (owner !== undefined && owner !== sku) {
+        errors.push(`Barcode ${barcode} is already used by product ${owner}`);
+      }
+    }
+
+    if (!exists && !values.name) {
+      errors.push('Name is missing');
+    }
+
+    if (
+      values.category !== undefined &&
+      !context.createCategories &&
+      !categoryNames.has(String(values.category).toLowerCase())
+    ) {
+      errors.push(`Unknown category "${values.category}"`);
+    }
+
+    // Thresholds the file leaves out keep their stored value, so check the pair as it will be saved
+    const reorderPoint = Number(
+      values.reorder_point ?? existing?.reorder_point ?? DEFAULT_REORDER_POINT
+    );
+    const maxLevel = values.max_level ?? existing?.max_level ?? null;
+    if (maxLevel !== null && Number(maxLevel) < reorderPoint) {
+      errors.push(`Max level ${maxLevel} cannot be lower than the reorder point ${reorderPoint}`);
+    }
+
+    return {
+      rowNumber,
+      values,
+      action: errors.length > 0 ? 'skip' : exists ? 'update' : 'create',
+      errors,
+    };
+  });
+}
+
+// Only products sharing the file's SKUs or barcodes are looked up, so the preview doesn't need
+// the whole catalogue
+export async function fetchExistingProducts(
+  skus: string[],
+  barcodes: string[]
+): Promise<ExistingProduct[]> {
+  const existing = new Map<string, ExistingProduct>();
+  const lookups: [string, string[]][] = [
+    ['sku', [...new Set(skus)]],
+    ['barcode', [...new Set(barcodes)]],
+  ];
+
+  for (const [column, values] of lookups) {
+    for (let i = 0; i < values.length; i += LOOKUP_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('products')
+        .select('sku, barcode, reorder_point, max_level')
+        .in(column, values.slice(i, i + LOOKUP_BATCH_SIZE));
+
+      if (error) throw error;
+      for (const product of (data || []) as ExistingProduct[]) {
+        existing.set(product.sku, product);
+      }
+    }
+  }
+
+  return [...existing.values()];
+}
+
+export async function importProducts(
+  rows: ImportValues[],
+  createCategories: boolean
+): Promise<ImportSummary> {
+  const { data, error } = await supabase.rpc('import_products', {
+    p_rows: rows,
+    p_create_categories: createCategories,
+  });
+
+  if (error) throw toStockError(error);
+  return data as ImportSummary;
+}
@@ -0,0 +1,42 @@
+import { supabase } from './supabase';
+import { toStockError } from './stock';
+import { PurchaseOrderStatus } from '../types/database';
+
+export interface PurchaseOrderReceipt {
+  lineId: string;
+  quantity: number;
+  lotNumber?: string;
+  expiryDate?: string;
+}
+
+export async function setPurchaseOrderStatus(
+  purchaseOrderId: string,
+  status: Extract<PurchaseOrderStatus, 'sent' | 'cancelled'>
+): Promise<void> {
+  const { error } = await supabase.rpc('set_purchase_order_status', {
+    p_purchase_order_id: purchaseOrderId,
+    p_status: status,
+  });
+
+  if (error) throw toStockError(error);
+}
+
+export async function receivePurchaseOrder(
+  purchaseOrderId: string,
+  locationId: string | null,
+  receipts: PurchaseOrderReceipt[]
+): Promise<PurchaseOrderStatus> {
+  const { data, error } = await supabase.rpc('receive_purchase_order', {
+    p_purchase_order_id: purchaseOrderId,
+    p_location_id: locationId,
+    p_lines: receipts.map((receipt) => ({
+      line_id: receipt.lineId,
+      quantity: receipt.quantity,
+      lot_number: receipt.lotNumber ?? null,
+      expiry_date: receipt.expiryDate ?? null,
+    })),
+  });
+
+  if (error) throw toStockError(error);
+  return data as PurchaseOrderStatus;
+}
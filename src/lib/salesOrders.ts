@@ -0,0 +1,17 @@
+import { supabase } from './supabase';
+import { toStockError } from './stock';
+
+export async function confirmSalesOrder(salesOrderId: string): Promise<void> {
+  const { error } = await supabase.rpc('confirm_sales_order', { p_sales_order_id: salesOrderId });
+  if (error) throw toStockError(error);
+}
+
+export async function shipSalesOrder(salesOrderId: string): Promise<void> {
+  const { error } = await supabase.rpc('ship_sales_order', { p_sales_order_id: salesOrderId });
+  if (error) throw toStockError(error);
+}
+
+export async function cancelSalesOrder(salesOrderId: string): Promise<void> {
+  const { error } = await supabase.rpc('cancel_sales_order', { p_sales_order_id: salesOrderId });
+  if (error) throw toStockError(error);
+}
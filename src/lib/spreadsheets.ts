@@ -0,0 +1,106 @@
+import { readSheet } from 'read-excel-file/browser';
+import writeXlsxFile from 'write-excel-file/browser';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+// One exported record, keyed by column heading
+export type ExportRow = Record<string, string | number | null>;
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// First sheet of an .xlsx file, or the rows of a .csv file, as text cells
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    const rows = await readSheet(file);
+    return rows
+      .map((row) => row.map((cell) => (cell === null ? '' : String(cell))))
+      .filter((row) => row.some((value) => value.trim() !== ''));
+  }
+
+  // Excel writes a byte order mark in front of UTF-8 CSVs
+  return parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+}
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  const headers = Object.keys(rows[0] ?? {});
+  return [headers, ...rows.map((row) => headers.map((header) => row[header]))]
+    .map((row) => row.map(csvField).join(','))
+    .join('\r\n');
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Downloads the rows as e.g. products-2026-04-12.xlsx
+export async function exportRows(rows: ExportRow[], name: string, format: ExportFormat) {
+  const fileName = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === 'xlsx') {
+    const headers = Object.keys(rows[0] ?? {});
+    const blob = await writeXlsxFile([
+      headers.map((header) => ({ value: header, fontWeight: 'bold' as const })),
+      ...rows.map((row) => headers.map((header) => row[header])),
+    ]).toBlob();
+    downloadBlob(blob, fileName);
+  } else if (format === 'csv') {
+    // The byte order mark makes Excel open the file as UTF-8
+    downloadBlob(new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv' }), fileName);
+  } else {
+    downloadBlob(
+      new Blob([JSON.stringify(rows, null, 2)], { type: 'application/json' }),
+      fileName
+    );
+  }
+}
@@ -0,0 +1,257 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import {
+  AdjustmentReason,
+  Product,
+  ProductStatus,
+  ProductStock,
+  StockTransaction,
+  StockTransactionReason,
+} from '../types/database';
+
+const INSUFFICIENT_STOCK = 'IV001';
+
+export const REASON_LABELS: Record<StockTransactionReason, string> = {
+  damaged: 'Damaged',
+  lost: 'Lost',
+  found: 'Found',
+  correction: 'Correction',
+  expired: 'Expired',
+  opening_balance: 'Opening balance',
+  stock_count: 'Stock count',
+};
+
+// Which way a hand-recorded adjustment moves stock; corrections go either way
+export const ADJUSTMENT_DIRECTIONS: Record<AdjustmentReason, 'add' | 'remove' | null> = {
+  damaged: 'remove',
+  lost: 'remove',
+  expired: 'remove',
+  found: 'add',
+  correction: null,
+};
+
+export class InsufficientStockError extends Error {
+  available: number;
+  requested: number;
+
+  constructor(available: number, requested: number) {
+    super(`Insufficient stock: ${available} available, ${requested} requested`);
+    this.name = 'InsufficientStockError';
+    this.available = available;
+    this.requested = requested;
+  }
+}
+
+export interface StockMovement {
+  productId: string;
+  locationId: string | null;
+  type: StockTransaction['type'];
+  quantity: number;
+  notes?: string;
+  unitCost?: number;
+  lotId?: string;
+  lotNumber?: string;
+  expiryDate?: string;
+  serialNumbers?: string[];
+  reason?: AdjustmentReason;
+}
+
+export function toStockError(error: PostgrestError): Error {
+  if (error.code === INSUFFICIENT_STOCK) {
+    try {
+      const detail = JSON.parse(error.details);
+      return new InsufficientStockError(detail.available, detail.requested);
+    } catch {
+      return new InsufficientStockError(0, 0);
+    }
+  }
+  return new Error(error.message);
+}
+
+export async function recordStockMovement(movement: StockMovement): Promise<number> {
+  const { data, error } = await supabase.rpc('record_stock_movement', {
+    p_product_id: movement.productId,
+    p_location_id: movement.locationId,
+    p_type: movement.type,
+    p_quantity: movement.quantity,
+    p_notes: movement.notes ?? '',
+    p_unit_cost: movement.unitCost ?? null,
+    p_lot_id: movement.lotId ?? null,
+    p_lot_number: movement.lotNumber ?? null,
+    p_expiry_date: movement.expiryDate ?? null,
+    p_serial_numbers: movement.serialNumbers ?? null,
+    p_reason: movement.reason ?? null,
+  });
+
+  if (error) throw toStockError(error);
+  return data as number;
+}
+
+// Books unexplained stock as an opening balance; returns the number of ledger entries posted
+export async function reconcileStockLedger(productId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('reconcile_stock_ledger', { p_product_id: productId });
+  if (error) throw toStockError(error);
+  return data as number;
+}
+
+export interface TransactionTotalsFilter {
+  start: string | null;
+  end: string | null;
+  productId: string | null;
+  categoryId: string | null;
+  userId: string | null;
+  type: string | null;
+  search: string | null;
+  notes: string | null;
+}
+
+export interface TransactionTotals {
+  stock_in: number;
+  stock_out: number;
+  net: number;
+}
+
+// search and notes are substring matches, already escaped for LIKE
+export async function getTransactionTotals(
+  filter: TransactionTotalsFilter
+): Promise<TransactionTotals> {
+  const { data, error } = await supabase.rpc('stock_transaction_totals', {
+    p_from: filter.start,
+    p_to: filter.end,
+    p_product_id: filter.productId,
+    p_category_id: filter.categoryId,
+    p_user_id: filter.userId,
+    p_type: filter.type,
+    p_search: filter.search,
+    p_notes: filter.notes,
+  });
+
+  if (error) throw error;
+  return data as TransactionTotals;
+}
+
+export async function voidStockTransaction(transactionId: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('void_stock_transaction', {
+    p_transaction_id: transactionId,
+    p_reason: reason,
+  });
+  if (error) throw toStockError(error);
+}
+
+export const USAGE_WINDOW_DAYS = 30;
+
+export function getSignedQuantity(transaction: Pick<StockTransaction, 'type' | 'quantity'>): number {
+  return transaction.type === 'OUT' ? -transaction.quantity : transaction.quantity;
+}
+
+export interface StockLevelPoint {
+  time: number;
+  quantity: number;
+}
+
+// Total on hand after each movement, replayed from the ledger in the order it was recorded
+export function buildStockLevelHistory(
+  transactions: Pick<StockTransaction, 'type' | 'quantity' | 'created_at'>[]
+): StockLevelPoint[] {
+  let quantity = 0;
+  return transactions.map((transaction) => {
+    quantity += getSignedQuantity(transaction);
+    return { time: new Date(transaction.created_at).getTime(), quantity };
+  });
+}
+
+// Units issued per day over the window. Transfers, voided issues and the reversals posted by a
+// void are not usage
+export function getAverageDailyUsage(
+  transactions: Pick<
+    StockTransaction,
+    'type' | 'quantity' | 'created_at' | 'transfer_id' | 'voided_at' | 'reverses_transaction_id'
+  >[],
+  days = USAGE_WINDOW_DAYS,
+  now = new Date()
+): number {
+  const since = now.getTime() - days * 86400000;
+  const issued = transactions
+    .filter(
+      (transaction) =>
+        transaction.type === 'OUT' &&
+        !transaction.transfer_id &&
+        !transaction.voided_at &&
+        !transaction.reverses_transaction_id &&
+        new Date(transaction.created_at).getTime() >= since
+    )
+    .reduce((sum, transaction) => sum + transaction.quantity, 0);
+
+  return issued / days;
+}
+
+export function getStockStatus(
+  quantity: number,
+  thresholds: Pick<Product, 'reorder_point' | 'max_level'>
+): ProductStatus {
+  if (quantity === 0) return 'out_of_stock';
+  if (quantity <= thresholds.reorder_point) return 'low_stock';
+  if (thresholds.max_level !== null && quantity > thresholds.max_level) return 'overstock';
+  return 'in_stock';
+}
+
+export function getAvailableQuantity(stock: Pick<ProductStock, 'quantity' | 'reserved'>): number {
+  return Math.max(stock.quantity - stock.reserved, 0);
+}
+
+export interface StockTransferRequest {
+  productId: string;
+  fromLocationId: string;
+  toLocationId: string;
+  quantity: number;
+  notes?: string;
+  receive?: boolean;
+}
+
+export async function dispatchStockTransfer(transfer: StockTransferRequest): Promise<string> {
+  const { data, error } = await supabase.rpc('dispatch_stock_transfer', {
+    p_product_id: transfer.productId,
+    p_from_location_id: transfer.fromLocationId,
+    p_to_location_id: transfer.toLocationId,
+    p_quantity: transfer.quantity,
+    p_notes: transfer.notes ?? '',
+    p_receive: transfer.receive ?? false,
+  });
+
+  if (error) throw toStockError(error);
+  return data as string;
+}
+
+export async function receiveStockTransfer(transferId: string): Promise<void> {
+  const { error } = await supabase.rpc('receive_stock_transfer', { p_transfer_id: transferId });
+  if (error) throw toStockError(error);
+}
+
+export async function cancelStockTransfer(transferId: string): Promise<void> {
+  const { error } = await supabase.rpc('cancel_stock_transfer', { p_transfer_id: transferId });
+  if (error) throw toStockError(error);
+}
+
+export interface StockHoldRequest {
+  productId: string;
+  locationId: string | null;
+  quantity: number;
+  reason?: string;
+}
+
+export async function placeStockHold(hold: StockHoldRequest): Promise<string> {
+  const { data, error } = await supabase.rpc('place_stock_hold', {
+    p_product_id: hold.productId,
+    p_location_id: hold.locationId,
+    p_quantity: hold.quantity,
+    p_reason: hold.reason ?? '',
+  });
+
+  if (error) throw toStockError(error);
+  return data as string;
+}
+
+export async function releaseStockHold(holdId: string): Promise<void> {
+  const { error } = await supabase.rpc('release_stock_hold', { p_hold_id: holdId });
+  if (error) throw toStockError(error);
+}
@@ -0,0 +1,56 @@
+import { supabase } from './supabase';
+import { toStockError } from './stock';
+
+export interface StockCountRequest {
+  locationId: string;
+  categoryId: string | null;
+  blind: boolean;
+  notes?: string;
+}
+
+export interface StockCountEntry {
+  lineId: string;
+  countedQuantity: number | null;
+}
+
+export async function startStockCount(request: StockCountRequest): Promise<string> {
+  const { data, error } = await supabase.rpc('start_stock_count', {
+    p_location_id: request.locationId,
+    p_category_id: request.categoryId,
+    p_blind: request.blind,
+    p_notes: request.notes ?? '',
+  });
+
+  if (error) throw toStockError(error);
+  return data as string;
+}
+
+export async function saveStockCountLines(
+  stockCountId: string,
+  entries: StockCountEntry[]
+): Promise<void> {
+  const { error } = await supabase.rpc('save_stock_count_lines', {
+    p_stock_count_id: stockCountId,
+    p_lines: entries.map((entry) => ({
+      line_id: entry.lineId,
+      counted_quantity: entry.countedQuantity,
+    })),
+  });
+
+  if (error) throw toStockError(error);
+}
+
+export async function submitStockCount(stockCountId: string): Promise<void> {
+  const { error } = await supabase.rpc('submit_stock_count', { p_stock_count_id: stockCountId });
+  if (error) throw toStockError(error);
+}
+
+export async function approveStockCount(stockCountId: string): Promise<void> {
+  const { error } = await supabase.rpc('approve_stock_count', { p_stock_count_id: stockCountId });
+  if (error) throw toStockError(error);
+}
+
+export async function cancelStockCount(stockCountId: string): Promise<void> {
+  const { error } = await supabase.rpc('cancel_stock_count', { p_stock_count_id: stockCountId });
+  if (error) throw toStockError(error);
+}
@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { AUDIT_TABLE_LABELS, getRecordLabel } from '../lib/audit';
+import { AuditLogEntryWithActor, Profile } from '../types/database';
+import AuditChanges, { AuditActionBadge } from '../components/AuditChanges';
+import AuditHistoryModal from '../components/AuditHistoryModal';
+
+interface AuditFilters {
+  tableName: string;
+  action: string;
+  actorId: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 200;
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditLogEntryWithActor[]>([]);
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [categoryNames, setCategoryNames] = useState<Map<string, string>>(new Map());
+  const [filters, setFilters] = useState<AuditFilters>({
+    tableName: '',
+    action: '',
+    actorId: '',
+    from: '',
+    to: '',
+  });
+  const [selected, setSelected] = useState<AuditLogEntryWithActor | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadLookups();
+  }, []);
+
+  useEffect(() => {
+    loadEntries(filters);
+  }, [filters]);
+
+  const loadLookups = async () => {
+    try {
+      const [usersRes, categoriesRes] = await Promise.all([
+        supabase.from('profiles').select('*').order('name'),
+        supabase.from('categories').select('id, name'),
+      ]);
+
+      if (usersRes.error) throw usersRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+
+      setUsers(usersRes.data || []);
+      setCategoryNames(
+        new Map(
+          (categoriesRes.data || []).map((category: { id: string; name: string }) => [
+            category.id,
+            category.name,
+          ])
+        )
+      );
+    } catch (error) {
+      console.error('Error loading audit filters:', error);
+    }
+  };
+
+  const loadEntries = async (current: AuditFilters) => {
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select('*, profiles(name)')
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (current.tableName) query = query.eq('table_name', current.tableName);
+      if (current.action) query = query.eq('action', current.action);
+      if (current.actorId) query = query.eq('actor_id', current.actorId);
+      if (current.from) query = query.gte('created_at', new Date(current.from).toISOString());
+      if (current.to) {
+        const end = new Date(current.to);
+        end.setDate(end.getDate() + 1);
+        query = query.lt('created_at', end.toISOString());
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-slate-600">Loading audit log...</div>
+      </div>
+    );
+  }
+
+  const inputClass =
+    'px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">Audit Log</h1>
+        <p className="text-slate-600 mt-1">Who changed products, categories and users, and how</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <select
+            value={filters.tableName}
+            onChange={(e) => setFilters({ ...filters, tableName: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All Records</option>
+            <option value="products">Products</option>
+            <option value="categories">Categories</option>
+            <option value="profiles">Users</option>
+          </select>
+
+          <select
+            value={filters.action}
+            onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All Changes</option>
+            <option value="INSERT">Created</option>
+            <option value="UPDATE">Updated</option>
+            <option value="DELETE">Deleted</option>
+          </select>
+
+          <select
+            value={filters.actorId}
+            onChange={(e) => setFilters({ ...filters, actorId: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All Users</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name}
+              </option>
+            ))}
+          </select>
+
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            title="From"
+            className={inputClass}
+          />
+
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            title="To"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Record
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Change
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Details
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  History
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-200">
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-slate-500">
+                    No changes match these filters
+                  </td>
+                </tr>
+              ) : (
+                entries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-slate-50 transition align-top">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900">
+                      {entry.profiles?.name ?? 'System'}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <p className="font-medium text-slate-900">{getRecordLabel(entry)}</p>
+                      <p className="text-xs text-slate-500">{AUDIT_TABLE_LABELS[entry.table_name]}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <AuditActionBadge action={entry.action} />
+                    </td>
+                    <td className="px-6 py-4">
+                      <AuditChanges entry={entry} categoryNames={categoryNames} />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <button
+                        onClick={() => setSelected(entry)}
+                        title="Record history"
+                        className="text-blue-600 hover:text-blue-800 transition"
+                      >
+                        <History className="w-5 h-5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {entries.length === PAGE_SIZE && (
+        <p className="text-sm text-slate-500 text-center">
+          Showing the latest {PAGE_SIZE} changes. Narrow the filters to see older ones.
+        </p>
+      )}
+
+      {selected && (
+        <AuditHistoryModal
+          entry={selected}
+          categoryNames={categoryNames}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Plus, Edit2, Trash2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { Category } from '../types/database';
 import CategoryModal from '../components/CategoryModal';
+import ExportMenu from '../components/ExportMenu';
 
 export default function Categories() {
   const [categories, setCategories] = useState<Category[]>([]);
@@ -54,6 +55,13 @@ export default function Categories() {
     loadCategories();
   };
 
+  const getExportRows = () =>
+    categories.map((category) => ({
+      Name: category.name,
+      Description: category.description,
+      Created: category.created_at,
+    }));
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -69,13 +77,16 @@ export default function Categories() {
           <h1 className="text-3xl font-bold text-slate-900">Categories</h1>
           <p className="text-slate-600 mt-1">Organize your products into categories</p>
         </div>
-        <button
-          onClick={() => setModalOpen(true)}
-          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
-        >
-          <Plus className="w-5 h-5" />
-          Add Category
-        </button>
+        <div className="flex items-center gap-3">
+          <ExportMenu name="categories" getRows={getExportRows} />
+          <button
+            onClick={() => setModalOpen(true)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
+          >
+            <Plus className="w-5 h-5" />
+            Add Category
+          </button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -1,7 +1,41 @@
-import { useEffect, useState } from 'react';
-import { Package, AlertTriangle, FolderOpen, XCircle } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import {
+  Package,
+  AlertTriangle,
+  FolderOpen,
+  XCircle,
+  MapPin,
+  DollarSign,
+  CalendarClock,
+  Boxes,
+  PackagePlus,
+} from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { DashboardStats, ProductWithCategory } from '../types/database';
+import {
+  AnalyticsRange,
+  CategoryMovement,
+  getDefaultBucket,
+  getMovementVolume,
+  getStockValueTrend,
+  getTopCategories,
+  getTopProducts,
+  MOVEMENT_BUCKETS,
+  MovementBucket,
+  MovementVolume,
+  ProductMovement,
+  StockValuePoint,
+} from '../lib/analytics';
+import { DATE_PRESETS, getDateRangeBounds, getPresetRange } from '../lib/dateRanges';
+import { useQueryParams } from '../hooks/useQueryParams';
+import { DashboardStats, Location, ProductWithCategory } from '../types/database';
+import { getCachedDashboardStats, getDashboardStats } from '../lib/dashboard';
+import { getExpiryCutoff, getExpiryWindowDays } from '../lib/lots';
+import StatusBadge from '../components/StatusBadge';
+import MovementVolumeChart from '../components/MovementVolumeChart';
+import StockValueChart from '../components/StockValueChart';
+import TopMoversChart from '../components/TopMoversChart';
+
+const DEFAULT_RANGE = 'last_30_days';
 
 export default function Dashboard() {
   const [stats, setStats] = useState<DashboardStats>({
@@ -9,19 +43,73 @@ export default function Dashboard() {
     lowStockCount: 0,
     totalCategories: 0,
     outOfStockCount: 0,
+    overstockCount: 0,
+    totalUnits: 0,
+    totalValue: 0,
+    expiringLotsCount: 0,
   });
   const [recentProducts, setRecentProducts] = useState<ProductWithCategory[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [loading, setLoading] = useState(true);
+  const [volumes, setVolumes] = useState<MovementVolume[]>([]);
+  const [valueTrend, setValueTrend] = useState<StockValuePoint[]>([]);
+  const [topProducts, setTopProducts] = useState<ProductMovement[]>([]);
+  const [topCategories, setTopCategories] = useState<CategoryMovement[]>([]);
+  const latestStatsRequest = useRef(0);
+  const latestAnalyticsRequest = useRef(0);
+  const [params, setParams] = useQueryParams();
+  const locationId = params.get('location') ?? '';
+
+  const defaultRange = getPresetRange(DEFAULT_RANGE);
+  const from = params.get('from') || defaultRange.from;
+  const to = params.get('to') || defaultRange.to;
+  const { start, end } = getDateRangeBounds(from, to);
+  const bucketParam = params.get('bucket');
+  const bucket = MOVEMENT_BUCKETS.some((option) => option.bucket === bucketParam)
+    ? (bucketParam as MovementBucket)
+    : getDefaultBucket(start ?? '', end ?? '');
 
   useEffect(() => {
-    loadDashboardData();
+    loadLocations();
   }, []);
 
-  const loadDashboardData = async () => {
+  useEffect(() => {
+    loadDashboardData(locationId);
+  }, [locationId]);
+
+  useEffect(() => {
+    if (start && end) {
+      loadAnalytics({ start, end, locationId: locationId || null }, bucket);
+    }
+  }, [start, end, bucket, locationId]);
+
+  const loadLocations = async () => {
     try {
-      const [productsRes, categoriesRes, recentRes] = await Promise.all([
-        supabase.from('products').select('status'),
-        supabase.from('categories').select('id'),
+      const { data, error } = await supabase
+        .from('locations')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setLocations(data || []);
+    } catch (error) {
+      console.error('Error loading locations:', error);
+    }
+  };
+
+  const loadDashboardData = async (locationId: string) => {
+    const request = ++latestStatsRequest.current;
+    const expiryCutoff = getExpiryCutoff(getExpiryWindowDays());
+    const cached = getCachedDashboardStats(locationId, expiryCutoff);
+
+    if (cached) {
+      setStats(cached);
+      setLoading(false);
+    }
+
+    try {
+      const [dashboardStats, recentRes] = await Promise.all([
+        getDashboardStats(locationId, expiryCutoff),
         supabase
           .from('products')
           .select('*, categories(*)')
@@ -29,17 +117,9 @@ export default function Dashboard() {
           .limit(5),
       ]);
 
-      if (productsRes.data) {
-        const lowStock = productsRes.data.filter((p) => p.status === 'low_stock').length;
-        const outOfStock = productsRes.data.filter((p) => p.status === 'out_of_stock').length;
-
-        setStats({
-          totalProducts: productsRes.data.length,
-          lowStockCount: lowStock,
-          totalCategories: categoriesRes.data?.length || 0,
-          outOfStockCount: outOfStock,
-        });
-      }
+      // A slower, older response must not overwrite a newer one
+      if (request !== latestStatsRequest.current) return;
+      setStats(dashboardStats);
 
       if (recentRes.data) {
         setRecentProducts(recentRes.data);
@@ -51,6 +131,32 @@ export default function Dashboard() {
     }
   };
 
+  const loadAnalytics = async (range: AnalyticsRange, bucket: MovementBucket) => {
+    const request = ++latestAnalyticsRequest.current;
+
+    try {
+      const [volumeRows, valueRows, productRows, categoryRows] = await Promise.all([
+        getMovementVolume(range, bucket),
+        getStockValueTrend(range, bucket),
+        getTopProducts(range),
+        getTopCategories(range),
+      ]);
+
+      if (request !== latestAnalyticsRequest.current) return;
+      setVolumes(volumeRows);
+      setValueTrend(valueRows);
+      setTopProducts(productRows);
+      setTopCategories(categoryRows);
+    } catch (error) {
+      console.error('Error loading stock analytics:', error);
+    }
+  };
+
+  // A new span picks its own bucket size unless one was chosen
+  const updateRange = (range: { from: string; to: string }) => {
+    setParams({ ...range, bucket: null });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -61,9 +167,72 @@ export default function Dashboard() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-slate-900">Dashboard</h1>
-        <p className="text-slate-600 mt-1">Overview of your inventory system</p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Dashboard</h1>
+          <p className="text-slate-600 mt-1">Overview of your inventory system</p>
+        </div>
+        <div className="relative">
+          <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
+          <select
+            value={locationId}
+            onChange={(e) => setParams({ location: e.target.value })}
+            className="pl-10 pr-4 py-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          >
+            <option value="">All Locations</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="date"
+          value={from}
+          onChange={(e) => updateRange({ from: e.target.value, to })}
+          title="From"
+          className="px-3 py-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+        <span className="text-slate-500">to</span>
+        <input
+          type="date"
+          value={to}
+          onChange={(e) => updateRange({ from, to: e.target.value })}
+          title="To"
+          className="px-3 py-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+        {DATE_PRESETS.map(({ preset, label }) => {
+          const range = getPresetRange(preset);
+          const active = from === range.from && to === range.to;
+
+          return (
+            <button
+              key={preset}
+              onClick={() => updateRange(range)}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition ${
+                active ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+              }`}
+            >
+              {label}
+            </button>
+          );
+        })}
+        <select
+          value={bucket}
+          onChange={(e) => setParams({ bucket: e.target.value })}
+          title="Group by"
+          className="ml-auto px-3 py-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        >
+          {MOVEMENT_BUCKETS.map((option) => (
+            <option key={option.bucket} value={option.bucket}>
+              {option.label}
+            </option>
+          ))}
+        </select>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -91,6 +260,45 @@ export default function Dashboard() {
           icon={<XCircle className="w-8 h-8 text-red-600" />}
           bgColor="bg-red-50"
         />
+        <StatCard
+          title="Overstocked"
+          value={stats.overstockCount}
+          icon={<PackagePlus className="w-8 h-8 text-violet-600" />}
+          bgColor="bg-violet-50"
+        />
+        <StatCard
+          title="Stock Value"
+          value={`$${stats.totalValue.toFixed(2)}`}
+          icon={<DollarSign className="w-8 h-8 text-emerald-600" />}
+          bgColor="bg-emerald-50"
+        />
+        <StatCard
+          title="Units on Hand"
+          value={stats.totalUnits}
+          icon={<Boxes className="w-8 h-8 text-sky-600" />}
+          bgColor="bg-sky-50"
+        />
+        <StatCard
+          title={`Lots Expiring in ${getExpiryWindowDays()} Days`}
+          value={stats.expiringLotsCount}
+          icon={<CalendarClock className="w-8 h-8 text-orange-600" />}
+          bgColor="bg-orange-50"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ChartCard title="Stock In vs Out">
+          <MovementVolumeChart volumes={volumes} bucket={bucket} />
+        </ChartCard>
+        <ChartCard title="Stock Value">
+          <StockValueChart points={valueTrend} bucket={bucket} />
+        </ChartCard>
+        <ChartCard title="Top Moving Products">
+          <TopMoversChart movers={topProducts} />
+        </ChartCard>
+        <ChartCard title="Top Categories by Movement">
+          <TopMoversChart movers={topCategories} />
+        </ChartCard>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
@@ -167,7 +375,7 @@ function StatCard({
   bgColor,
 }: {
   title: string;
-  value: number;
+  value: number | string;
   icon: React.ReactNode;
   bgColor: string;
 }) {
@@ -184,26 +392,11 @@ function StatCard({
   );
 }
 
-function StatusBadge({ status }: { status: string }) {
-  const colors = {
-    in_stock: 'bg-green-100 text-green-800',
-    low_stock: 'bg-amber-100 text-amber-800',
-    out_of_stock: 'bg-red-100 text-red-800',
-  };
-
-  const labels = {
-    in_stock: 'In Stock',
-    low_stock: 'Low Stock',
-    out_of_stock: 'Out of Stock',
-  };
-
+function ChartCard({ title, children }: { title: string; children: React.ReactNode }) {
   return (
-    <span
-      className={`px-3 py-1 rounded-full text-xs font-semibold ${
-        colors[status as keyof typeof colors]
-      }`}
-    >
-      {labels[status as keyof typeof labels]}
-    </span>
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <h2 className="text-lg font-semibold text-slate-900 mb-4">{title}</h2>
+      {children}
+    </div>
   );
 }
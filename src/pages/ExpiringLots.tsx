@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  daysUntilExpiry,
+  getExpiryCutoff,
+  getExpiryWindowDays,
+  setExpiryWindowDays,
+} from '../lib/lots';
+import { Location, StockLotWithDetails } from '../types/database';
+
+export default function ExpiringLots() {
+  const [lots, setLots] = useState<StockLotWithDetails[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [windowDays, setWindowDays] = useState(getExpiryWindowDays);
+  const [locationId, setLocationId] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadLocations();
+  }, []);
+
+  useEffect(() => {
+    loadLots(windowDays, locationId);
+  }, [windowDays, locationId]);
+
+  const loadLots = async (windowDays: number, locationId: string) => {
+    try {
+      let query = supabase
+        .from('stock_lots')
+        .select('*, products(*), locations(*)')
+        .gt('quantity', 0)
+        .lte('expiry_date', getExpiryCutoff(windowDays))
+        .order('expiry_date');
+
+      if (locationId) {
+        query = query.eq('location_id', locationId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setLots(data || []);
+    } catch (error) {
+      console.error('Error loading lots:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadLocations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('locations')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setLocations(data || []);
+    } catch (error) {
+      console.error('Error loading locations:', error);
+    }
+  };
+
+  const handleWindowChange = (value: string) => {
+    const days = parseInt(value);
+    if (Number.isNaN(days) || days < 0) return;
+    setExpiryWindowDays(days);
+    setWindowDays(days);
+  };
+
+  const expiredCount = lots.filter((lot) => daysUntilExpiry(lot.expiry_date!) < 0).length;
+  const unitsAtRisk = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const valueAtRisk = lots.reduce((sum, lot) => sum + lot.quantity * lot.products.average_cost, 0);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-slate-600">Loading lots...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Lots & Expiry</h1>
+          <p className="text-slate-600 mt-1">Lots that have expired or expire soon</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="relative">
+            <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
+            <select
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            >
+              <option value="">All Locations</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            Within
+            <input
+              type="number"
+              min="0"
+              value={windowDays}
+              onChange={(e) => handleWindowChange(e.target.value)}
+              className="w-20 px-3 py-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            />
+            days
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <p className="text-sm text-slate-600">Lots</p>
+          <p className="text-3xl font-bold text-slate-900 mt-2">{lots.length}</p>
+          <p className="text-xs text-red-600 mt-1">{expiredCount} already expired</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <p className="text-sm text-slate-600">Units</p>
+          <p className="text-3xl font-bold text-slate-900 mt-2">{unitsAtRisk}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <p className="text-sm text-slate-600">Value at Average Cost</p>
+          <p className="text-3xl font-bold text-slate-900 mt-2">${valueAtRisk.toFixed(2)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Lot
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Location
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Quantity
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Expiry
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-200">
+              {lots.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-slate-500">
+                    No lots expire within {windowDays} days
+                  </td>
+                </tr>
+              ) : (
+                lots.map((lot) => (
+                  <tr key={lot.id} className="hover:bg-slate-50 transition">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                      {lot.products.name}
+                      <p className="text-xs text-slate-500">{lot.products.sku}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-slate-600">
+                      {lot.lot_number}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {lot.locations.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {lot.quantity}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {new Date(`${lot.expiry_date}T00:00:00`).toLocaleDateString()}
+                      <div className="mt-1">
+                        <ExpiryBadge days={daysUntilExpiry(lot.expiry_date!)} />
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ExpiryBadge({ days }: { days: number }) {
+  if (days < 0) {
+    return (
+      <span className="px-3 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-800">
+        Expired {-days}d ago
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-semibold ${
+        days <= 7 ? 'bg-orange-100 text-orange-800' : 'bg-amber-100 text-amber-800'
+      }`}
+    >
+      {days === 0 ? 'Expires today' : `${days}d left`}
+    </span>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, RefreshCw } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { reconcileStockLedger } from '../lib/stock';
+import { StockLedgerDiscrepancy } from '../types/database';
+import { useAuth } from '../contexts/AuthContext';
+
+export default function LedgerCheck() {
+  const [rows, setRows] = useState<StockLedgerDiscrepancy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [checkedAt, setCheckedAt] = useState<Date | null>(null);
+  const { profile } = useAuth();
+
+  useEffect(() => {
+    loadDiscrepancies();
+  }, []);
+
+  const loadDiscrepancies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('stock_ledger_discrepancies')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setRows(data || []);
+      setCheckedAt(new Date());
+    } catch (error) {
+      console.error('Error loading ledger check:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReconcile = async (row: StockLedgerDiscrepancy) => {
+    if (
+      !confirm(
+        `Book the difference of ${row.difference} for ${row.name} as an opening balance? ` +
+          'Stock levels stay as they are.'
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await reconcileStockLedger(row.product_id);
+      loadDiscrepancies();
+    } catch (error) {
+      console.error('Error reconciling ledger:', error);
+      alert(error instanceof Error ? error.message : 'Failed to reconcile ledger');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-slate-600">Checking ledger...</div>
+      </div>
+    );
+  }
+
+  const isAdmin = profile?.role === 'admin';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Ledger Check</h1>
+          <p className="text-slate-600 mt-1">
+            Products whose quantity disagrees with their stock transactions
+          </p>
+        </div>
+        <button
+          onClick={loadDiscrepancies}
+          className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 bg-white rounded-lg hover:bg-slate-50 transition"
+        >
+          <RefreshCw className="w-5 h-5" />
+          Run Again
+        </button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-12 text-center">
+          <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-3" />
+          <p className="text-lg font-medium text-slate-900">Every product matches its ledger</p>
+          {checkedAt && (
+            <p className="text-sm text-slate-500 mt-1">Checked {checkedAt.toLocaleString()}</p>
+          )}
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Product
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    SKU
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    On Hand
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Ledger
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Difference
+                  </th>
+                  {isAdmin && (
+                    <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-slate-200">
+                {rows.map((row) => (
+                  <tr key={row.product_id} className="hover:bg-slate-50 transition">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                      {row.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{row.sku}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900 text-right">
+                      {row.quantity}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900 text-right">
+                      {row.ledger_quantity}
+                    </td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm font-semibold text-right ${
+                        row.difference > 0 ? 'text-amber-700' : 'text-red-700'
+                      }`}
+                    >
+                      {row.difference > 0 && '+'}
+                      {row.difference}
+                    </td>
+                    {isAdmin && (
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        <button
+                          onClick={() => handleReconcile(row)}
+                          className="text-blue-600 hover:text-blue-800 font-medium transition"
+                        >
+                          Reconcile
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
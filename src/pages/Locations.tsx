@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, Trash2, MapPin } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { Location } from '../types/database';
+import LocationModal from '../components/LocationModal';
+
+export default function Locations() {
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [unitsByLocation, setUnitsByLocation] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+
+  useEffect(() => {
+    loadLocations();
+  }, []);
+
+  const loadLocations = async () => {
+    try {
+      const [locationsRes, stockRes] = await Promise.all([
+        supabase.from('locations').select('*').order('name'),
+        supabase.from('product_stock').select('location_id, quantity'),
+      ]);
+
+      if (locationsRes.error) throw locationsRes.error;
+      if (stockRes.error) throw stockRes.error;
+
+      const units: Record<string, number> = {};
+      for (const row of stockRes.data || []) {
+        units[row.location_id] = (units[row.location_id] || 0) + row.quantity;
+      }
+
+      setLocations(locationsRes.data || []);
+      setUnitsByLocation(units);
+    } catch (error) {
+      console.error('Error loading locations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this location?')) return;
+
+    try {
+      const { error } = await supabase.from('locations').delete().eq('id', id);
+      if (error) throw error;
+      loadLocations();
+    } catch (error) {
+      console.error('Error deleting location:', error);
+      alert('Failed to delete location. It may still hold stock or have transactions.');
+    }
+  };
+
+  const handleEdit = (location: Location) => {
+    setEditingLocation(location);
+    setModalOpen(true);
+  };
+
+  const handleModalClose = () => {
+    setModalOpen(false);
+    setEditingLocation(null);
+    loadLocations();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-slate-600">Loading locations...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Locations</h1>
+          <p className="text-slate-600 mt-1">Stockrooms and other places where stock is kept</p>
+        </div>
+        <button
+          onClick={() => setModalOpen(true)}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
+        >
+          <Plus className="w-5 h-5" />
+          Add Location
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {locations.map((location) => (
+          <div
+            key={location.id}
+            className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 hover:shadow-md transition"
+          >
+            <div className="flex items-start justify-between mb-4">
+              <div className="flex-1">
+                <div className="flex items-center gap-2 mb-2">
+                  <MapPin className="w-4 h-4 text-slate-400" />
+                  <h3 className="text-lg font-semibold text-slate-900">{location.name}</h3>
+                  {location.is_default && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                      Default
+                    </span>
+                  )}
+                  {!location.is_active && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-slate-100 text-slate-800">
+                      Inactive
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-600 line-clamp-2">
+                  {location.description || 'No description'}
+                </p>
+                <p className="text-sm text-slate-500 mt-3">
+                  <span className="font-semibold text-slate-900">
+                    {unitsByLocation[location.id] || 0}
+                  </span>{' '}
+                  units on hand
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2 pt-4 border-t border-slate-100">
+              <button
+                onClick={() => handleEdit(location)}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+              >
+                <Edit2 className="w-4 h-4" />
+                Edit
+              </button>
+              {!location.is_default && (
+                <button
+                  onClick={() => handleDelete(location.id)}
+                  className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {locations.length === 0 && (
+          <div className="col-span-full text-center py-12">
+            <p className="text-slate-500">No locations yet. Add your first location to get started!</p>
+          </div>
+        )}
+      </div>
+
+      {modalOpen && <LocationModal location={editingLocation} onClose={handleModalClose} />}
+    </div>
+  );
+}
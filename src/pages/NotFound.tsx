@@ -0,0 +1,22 @@
+import { useLocation, useNavigate } from 'react-router-dom';
+
+export default function NotFound() {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  return (
+    <div className="flex items-center justify-center h-full">
+      <div className="text-center">
+        <p className="text-6xl font-bold text-slate-300">404</p>
+        <p className="text-xl text-slate-600 mt-4">Page not found</p>
+        <p className="text-slate-500 mt-2 font-mono text-sm">{location.pathname}</p>
+        <button
+          onClick={() => navigate('/dashboard')}
+          className="mt-6 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition"
+        >
+          Go to Dashboard
+        </button>
+      </div>
+    </div>
+  );
+}
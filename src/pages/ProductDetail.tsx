@@ -0,0 +1,324 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Edit2, Tag, TrendingUp } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { fetchAllRows } from '../lib/pagination';
+import {
+  buildStockLevelHistory,
+  getAverageDailyUsage,
+  getSignedQuantity,
+  REASON_LABELS,
+  USAGE_WINDOW_DAYS,
+} from '../lib/stock';
+import {
+  Category,
+  Location,
+  ProductWithLots,
+  StockTransactionWithLocation,
+  Supplier,
+} from '../types/database';
+import StatusBadge from '../components/StatusBadge';
+import StockLevelChart from '../components/StockLevelChart';
+import TransactionTypeBadge from '../components/TransactionTypeBadge';
+import StockModal from '../components/StockModal';
+import ProductModal from '../components/ProductModal';
+import LabelPrintModal from '../components/LabelPrintModal';
+
+export default function ProductDetail() {
+  const { id: productId = '' } = useParams();
+  const navigate = useNavigate();
+  const [product, setProduct] = useState<ProductWithLots | null>(null);
+  const [history, setHistory] = useState<StockTransactionWithLocation[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [stockModalOpen, setStockModalOpen] = useState(false);
+  const [editOpen, setEditOpen] = useState(false);
+  const [labelsOpen, setLabelsOpen] = useState(false);
+
+  useEffect(() => {
+    loadProduct(productId);
+    loadHistory(productId);
+  }, [productId]);
+
+  useEffect(() => {
+    loadFormOptions();
+  }, []);
+
+  const loadProduct = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*, categories(*), product_stock(*, locations(*)), stock_lots(*)')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setProduct(data);
+    } catch (error) {
+      console.error('Error loading product:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadHistory = async (id: string) => {
+    try {
+      const rows = await fetchAllRows<StockTransactionWithLocation>((from, to) =>
+        supabase
+          .from('stock_transactions')
+          .select('*, profiles(name), locations(name)')
+          .eq('product_id', id)
+          .order('created_at')
+          .order('id')
+          .range(from, to)
+      );
+      setHistory(rows);
+    } catch (error) {
+      console.error('Error loading product history:', error);
+    }
+  };
+
+  const loadFormOptions = async () => {
+    try {
+      const [categoriesRes, suppliersRes, locationsRes] = await Promise.all([
+        supabase.from('categories').select('*').order('name'),
+        supabase.from('suppliers').select('*').order('name'),
+        supabase.from('locations').select('*').order('name'),
+      ]);
+
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (suppliersRes.error) throw suppliersRes.error;
+      if (locationsRes.error) throw locationsRes.error;
+
+      setCategories(categoriesRes.data || []);
+      setSuppliers(suppliersRes.data || []);
+      setLocations(locationsRes.data || []);
+    } catch (error) {
+      console.error('Error loading product form data:', error);
+    }
+  };
+
+  const handleModalClose = () => {
+    setStockModalOpen(false);
+    setEditOpen(false);
+    loadProduct(productId);
+    loadHistory(productId);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-slate-600">Loading product...</div>
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <p className="text-xl text-slate-600">Product not found</p>
+          <button
+            onClick={() => navigate('/products')}
+            className="text-blue-600 hover:text-blue-800 mt-2 transition"
+          >
+            Back to products
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const usage = getAverageDailyUsage(history);
+  const daysOfCover = usage > 0 ? Math.floor(product.available_quantity / usage) : null;
+
+  const fields: { label: string; value: string | number }[] = [
+    { label: 'SKU', value: product.sku },
+    { label: 'Barcode', value: product.barcode || '-' },
+    { label: 'Category', value: product.categories?.name || '-' },
+    { label: 'Price', value: `$${product.price.toFixed(2)}` },
+    { label: 'Average Cost', value: `$${product.average_cost.toFixed(2)}` },
+    { label: 'On Hand', value: product.quantity },
+    { label: 'Reserved', value: product.reserved_quantity },
+    { label: 'Available', value: product.available_quantity },
+    { label: 'Reorder Point', value: product.reorder_point },
+    { label: 'Reorder Quantity', value: product.reorder_quantity },
+    { label: 'Max Level', value: product.max_level ?? '-' },
+    { label: 'Lot Tracking', value: product.track_lots ? 'Yes' : 'No' },
+    { label: 'Serial Tracking', value: product.track_serials ? 'Yes' : 'No' },
+    { label: 'Created', value: new Date(product.created_at).toLocaleDateString() },
+    { label: 'Updated', value: new Date(product.updated_at).toLocaleDateString() },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <button
+        onClick={() => navigate('/products')}
+        className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900 transition"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Products
+      </button>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-slate-900">{product.name}</h1>
+            <StatusBadge status={product.status} />
+          </div>
+          <p className="text-slate-600 mt-1">{product.description || 'No description'}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setLabelsOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 bg-white rounded-lg hover:bg-slate-50 transition"
+          >
+            <Tag className="w-5 h-5" />
+            Print Label
+          </button>
+          <button
+            onClick={() => setEditOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 bg-white rounded-lg hover:bg-slate-50 transition"
+          >
+            <Edit2 className="w-5 h-5" />
+            Edit
+          </button>
+          <button
+            onClick={() => setStockModalOpen(true)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
+          >
+            <TrendingUp className="w-5 h-5" />
+            Record Movement
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 lg:col-span-2">
+          <h2 className="text-lg font-semibold text-slate-900 mb-4">Stock Level</h2>
+          <StockLevelChart
+            points={buildStockLevelHistory(history)}
+            reorderPoint={product.reorder_point}
+          />
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+            <p className="text-sm font-medium text-slate-600">Average Daily Usage</p>
+            <p className="text-3xl font-bold text-slate-900 mt-2">{usage.toFixed(1)}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              Units issued per day over the last {USAGE_WINDOW_DAYS} days
+            </p>
+            <p className="text-sm text-slate-700 mt-3">
+              {daysOfCover === null
+                ? 'No recent usage'
+                : `About ${daysOfCover} days of available stock left`}
+            </p>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+            <h2 className="text-lg font-semibold text-slate-900 mb-3">By Location</h2>
+            {product.product_stock.length === 0 ? (
+              <p className="text-sm text-slate-500">No stock at any location</p>
+            ) : (
+              <div className="space-y-2">
+                {product.product_stock.map((stock) => (
+                  <div key={stock.location_id} className="flex justify-between text-sm">
+                    <span className="text-slate-700">{stock.locations.name}</span>
+                    <span className="font-medium text-slate-900">
+                      {stock.quantity}
+                      {stock.reserved > 0 && (
+                        <span className="text-xs text-amber-700"> ({stock.reserved} reserved)</span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-lg font-semibold text-slate-900 mb-4">Details</h2>
+        <dl className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-x-6 gap-y-4">
+          {fields.map((field) => (
+            <div key={field.label}>
+              <dt className="text-xs font-medium text-slate-500 uppercase tracking-wider">
+                {field.label}
+              </dt>
+              <dd className="text-sm text-slate-900 mt-1">{field.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+        <h2 className="text-lg font-semibold text-slate-900 mb-4">Movements</h2>
+        {history.length === 0 ? (
+          <p className="text-sm text-slate-500">No movements recorded yet</p>
+        ) : (
+          <ol className="divide-y divide-slate-200">
+            {[...history].reverse().map((transaction) => {
+              const change = getSignedQuantity(transaction);
+
+              return (
+                <li key={transaction.id} className="flex items-start justify-between gap-4 py-3">
+                  <div className="flex items-start gap-3">
+                    <TransactionTypeBadge type={transaction.type} />
+                    <div className="text-sm">
+                      <p className="text-slate-900">
+                        {transaction.locations.name}
+                        {transaction.transfer_id && ' · Transfer'}
+                        {transaction.reason && ` · ${REASON_LABELS[transaction.reason]}`}
+                        {transaction.voided_at && (
+                          <span className="ml-2 px-2 py-0.5 rounded bg-red-50 text-xs font-semibold text-red-700">
+                            Voided
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {new Date(transaction.created_at).toLocaleString()} ·{' '}
+                        {transaction.profiles.name}
+                        {transaction.notes && ` · ${transaction.notes}`}
+                      </p>
+                    </div>
+                  </div>
+                  <span
+                    className={`text-sm font-semibold whitespace-nowrap ${
+                      change > 0 ? 'text-green-700' : 'text-red-700'
+                    } ${transaction.voided_at ? 'line-through opacity-60' : ''}`}
+                  >
+                    {change > 0 && '+'}
+                    {change}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+
+      {stockModalOpen && (
+        <StockModal
+          locations={locations}
+          initialProductId={product.id}
+          onClose={handleModalClose}
+        />
+      )}
+
+      {editOpen && (
+        <ProductModal
+          product={product}
+          categories={categories}
+          suppliers={suppliers}
+          onClose={handleModalClose}
+        />
+      )}
+
+      {labelsOpen && <LabelPrintModal products={[product]} onClose={() => setLabelsOpen(false)} />}
+    </div>
+  );
+}
@@ -1,33 +1,129 @@
-import { useEffect, useState } from 'react';
-import { Plus, Edit2, Trash2, Search } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Plus, Edit2, Trash2, Search, Lock, Camera, Tag, Upload } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { ProductWithCategory, Category } from '../types/database';
+import { fetchProductByCode } from '../lib/barcodes';
+import {
+  buildSearchFilter,
+  fetchAllRows,
+  formatSort,
+  getPageRange,
+  PAGE_SIZE,
+  parsePage,
+  parseSort,
+  quoteFilterValue,
+  SortState,
+} from '../lib/pagination';
+import { useAuth } from '../contexts/AuthContext';
+import { useQueryParams } from '../hooks/useQueryParams';
+import { ProductWithStock, Category, Location, Supplier } from '../types/database';
 import ProductModal from '../components/ProductModal';
+import StockHoldModal from '../components/StockHoldModal';
+import CameraScanner from '../components/CameraScanner';
+import LabelPrintModal from '../components/LabelPrintModal';
+import ProductImportModal from '../components/ProductImportModal';
+import ExportMenu from '../components/ExportMenu';
+import StatusBadge from '../components/StatusBadge';
+import SortableHeader from '../components/SortableHeader';
+import Pagination from '../components/Pagination';
+
+interface ProductQuery {
+  search: string;
+  category: string;
+  status: string;
+  sort: SortState;
+  page: number;
+}
+
+const DEFAULT_SORT: SortState = { column: 'created_at', ascending: false };
+const SORT_COLUMNS = ['name', 'sku', 'price', 'available_quantity', 'status', 'created_at'];
+
+function selectProducts(query: ProductQuery, options?: { count: 'exact' }) {
+  let request = supabase
+    .from('products')
+    .select('*, categories(*), product_stock(*, locations(*))', options);
+
+  const term = query.search.trim();
+  if (term) {
+    request = request.or(
+      `${buildSearchFilter(term, ['name', 'sku'])},barcode.eq.${quoteFilterValue(term)}`
+    );
+  }
+  if (query.category) request = request.eq('category_id', query.category);
+  if (query.status) request = request.eq('status', query.status);
+
+  // id breaks ties so rows don't shift between pages
+  return request.order(query.sort.column, { ascending: query.sort.ascending }).order('id');
+}
 
 export default function Products() {
-  const [products, setProducts] = useState<ProductWithCategory[]>([]);
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [products, setProducts] = useState<ProductWithStock[]>([]);
+  const [total, setTotal] = useState(0);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [loading, setLoading] = useState(true);
   const [modalOpen, setModalOpen] = useState(false);
-  const [editingProduct, setEditingProduct] = useState<ProductWithCategory | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterCategory, setFilterCategory] = useState('');
-  const [filterStatus, setFilterStatus] = useState('');
+  const [editingProduct, setEditingProduct] = useState<ProductWithStock | null>(null);
+  const [holdProduct, setHoldProduct] = useState<ProductWithStock | null>(null);
+  const [newProductCode, setNewProductCode] = useState<string | undefined>(undefined);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  // Selections are kept as rows so they survive paging
+  const [selectedProducts, setSelectedProducts] = useState<ProductWithStock[]>([]);
+  const [labelsOpen, setLabelsOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const latestRequest = useRef(0);
+  const [params, setParams] = useQueryParams();
+  const parsedSort = parseSort(params.get('sort'), DEFAULT_SORT);
+  const query: ProductQuery = {
+    // Labels printed before product pages existed link here with ?search=<sku>
+    search: params.get('search') ?? '',
+    category: params.get('category') ?? '',
+    status: params.get('status') ?? '',
+    sort: SORT_COLUMNS.includes(parsedSort.column) ? parsedSort : DEFAULT_SORT,
+    page: parsePage(params.get('page')),
+  };
 
   useEffect(() => {
-    loadProducts();
     loadCategories();
+    loadSuppliers();
+    loadLocations();
   }, []);
 
-  const loadProducts = async () => {
+  const { search, category, status, page } = query;
+  const { column: sortColumn, ascending: sortAscending } = query.sort;
+
+  // Typing in the search box waits for a pause before querying
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      loadProducts({
+        search,
+        category,
+        status,
+        sort: { column: sortColumn, ascending: sortAscending },
+        page,
+      });
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [search, category, status, sortColumn, sortAscending, page]);
+
+  const loadProducts = async (current: ProductQuery) => {
+    const request = ++latestRequest.current;
+
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select('*, categories(*)')
-        .order('created_at', { ascending: false });
+      const [from, to] = getPageRange(current.page);
+      const { data, count, error } = await selectProducts(current, { count: 'exact' }).range(
+        from,
+        to
+      );
 
       if (error) throw error;
+      // A slower, older response must not overwrite a newer one
+      if (request !== latestRequest.current) return;
       setProducts(data || []);
+      setTotal(count ?? 0);
     } catch (error) {
       console.error('Error loading products:', error);
     } finally {
@@ -35,6 +131,11 @@ export default function Products() {
     }
   };
 
+  const updateQuery = (updates: Record<string, string | null>) => {
+    // Any change other than the page itself starts again from the first page
+    setParams({ page: null, ...updates });
+  };
+
   const loadCategories = async () => {
     try {
       const { data, error } = await supabase
@@ -49,38 +150,135 @@ export default function Products() {
     }
   };
 
+  const loadSuppliers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setSuppliers(data || []);
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+    }
+  };
+
+  const loadLocations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('locations')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setLocations(data || []);
+    } catch (error) {
+      console.error('Error loading locations:', error);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this product?')) return;
 
     try {
       const { error } = await supabase.from('products').delete().eq('id', id);
       if (error) throw error;
-      loadProducts();
+      loadProducts(query);
     } catch (error) {
       console.error('Error deleting product:', error);
       alert('Failed to delete product');
     }
   };
 
-  const handleEdit = (product: ProductWithCategory) => {
+  const handleEdit = (product: ProductWithStock) => {
     setEditingProduct(product);
     setModalOpen(true);
   };
 
+  const handleScan = async (code: string) => {
+    setCameraOpen(false);
+    updateQuery({ search: code });
+
+    try {
+      if (
+        !(await fetchProductByCode(code)) &&
+        confirm(`No product matches "${code}". Create a new product with this barcode?`)
+      ) {
+        setNewProductCode(code);
+        setModalOpen(true);
+      }
+    } catch (error) {
+      console.error('Error looking up scanned code:', error);
+    }
+  };
+
   const handleModalClose = () => {
     setModalOpen(false);
     setEditingProduct(null);
-    loadProducts();
+    setNewProductCode(undefined);
+    setHoldProduct(null);
+    loadProducts(query);
+  };
+
+  const handleImportClose = () => {
+    setImportOpen(false);
+    loadProducts(query);
+    loadCategories();
+  };
+
+  // Exports every product matching the filters, not just the current page.
+  // Headings match the import columns so an export can be edited and imported back
+  const getExportRows = async () => {
+    const matching = await fetchAllRows<ProductWithStock>((from, to) =>
+      selectProducts(query).range(from, to)
+    );
+
+    return matching.map((product) => ({
+      SKU: product.sku,
+      Name: product.name,
+      Barcode: product.barcode,
+      Category: product.categories?.name ?? null,
+      Price: product.price,
+      Quantity: product.quantity,
+      Reserved: product.reserved_quantity,
+      Available: product.available_quantity,
+      'Average Cost': product.average_cost,
+      'Reorder Point': product.reorder_point,
+      'Reorder Quantity': product.reorder_quantity,
+      'Max Level': product.max_level,
+      Status: product.status,
+      Description: product.description,
+    }));
+  };
+
+  const selectedIds = selectedProducts.map((product) => product.id);
+  const allSelected =
+    products.length > 0 && products.every((product) => selectedIds.includes(product.id));
+
+  const toggleSelected = (product: ProductWithStock) => {
+    setSelectedProducts(
+      selectedIds.includes(product.id)
+        ? selectedProducts.filter((selected) => selected.id !== product.id)
+        : [...selectedProducts, product]
+    );
   };
 
-  const filteredProducts = products.filter((product) => {
-    const matchesSearch =
-      product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      product.sku.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = !filterCategory || product.category_id === filterCategory;
-    const matchesStatus = !filterStatus || product.status === filterStatus;
-    return matchesSearch && matchesCategory && matchesStatus;
-  });
+  const toggleAllSelected = () => {
+    const visibleIds = products.map((product) => product.id);
+    setSelectedProducts(
+      allSelected
+        ? selectedProducts.filter((selected) => !visibleIds.includes(selected.id))
+        : [
+            ...selectedProducts,
+            ...products.filter((product) => !selectedIds.includes(product.id)),
+          ]
+    );
+  };
+
+  const handleSort = (sort: SortState) => {
+    updateQuery({ sort: formatSort(sort) === formatSort(DEFAULT_SORT) ? null : formatSort(sort) });
+  };
 
   if (loading) {
     return (
@@ -97,31 +295,65 @@ export default function Products() {
           <h1 className="text-3xl font-bold text-slate-900">Products</h1>
           <p className="text-slate-600 mt-1">Manage your inventory products</p>
         </div>
-        <button
-          onClick={() => setModalOpen(true)}
-          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
-        >
-          <Plus className="w-5 h-5" />
-          Add Product
-        </button>
+        <div className="flex items-center gap-3">
+          {selectedIds.length > 0 && (
+            <button
+              onClick={() => setLabelsOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 bg-white rounded-lg hover:bg-blue-50 transition"
+            >
+              <Tag className="w-5 h-5" />
+              Print Labels ({selectedIds.length})
+            </button>
+          )}
+          <ExportMenu name="products" getRows={getExportRows} />
+          <button
+            onClick={() => setImportOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 text-slate-700 bg-white rounded-lg hover:bg-slate-50 transition"
+          >
+            <Upload className="w-5 h-5" />
+            Import
+          </button>
+          <button
+            onClick={() => setModalOpen(true)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
+          >
+            <Plus className="w-5 h-5" />
+            Add Product
+          </button>
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
-            <input
-              type="text"
-              placeholder="Search by name or SKU..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-            />
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
+              <input
+                type="text"
+                placeholder="Search or scan name, SKU, barcode..."
+                value={query.search}
+                onChange={(e) => updateQuery({ search: e.target.value })}
+                onKeyDown={(e) => {
+                  // Scanners type the code and press Enter
+                  if (e.key === 'Enter' && query.search.trim()) {
+                    handleScan(query.search.trim());
+                  }
+                }}
+                className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              />
+            </div>
+            <button
+              onClick={() => setCameraOpen(true)}
+              title="Scan with camera"
+              className="px-3 border border-slate-300 text-slate-600 rounded-lg hover:bg-slate-50 transition"
+            >
+              <Camera className="w-5 h-5" />
+            </button>
           </div>
 
           <select
-            value={filterCategory}
-            onChange={(e) => setFilterCategory(e.target.value)}
+            value={query.category}
+            onChange={(e) => updateQuery({ category: e.target.value })}
             className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
           >
             <option value="">All Categories</option>
@@ -133,14 +365,15 @@ export default function Products() {
           </select>
 
           <select
-            value={filterStatus}
-            onChange={(e) => setFilterStatus(e.target.value)}
+            value={query.status}
+            onChange={(e) => updateQuery({ status: e.target.value })}
             className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
           >
             <option value="">All Status</option>
             <option value="in_stock">In Stock</option>
             <option value="low_stock">Low Stock</option>
             <option value="out_of_stock">Out of Stock</option>
+            <option value="overstock">Overstock</option>
           </select>
         </div>
       </div>
@@ -150,41 +383,58 @@ export default function Products() {
           <table className="w-full">
             <thead className="bg-slate-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                  Product Name
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                  SKU
+                <th className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAllSelected}
+                    title="Select all"
+                    className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                  />
                 </th>
+                <SortableHeader label="Product Name" column="name" sort={query.sort} onSort={handleSort} />
+                <SortableHeader label="SKU" column="sku" sort={query.sort} onSort={handleSort} />
                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                   Category
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                  Price
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                  Quantity
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                  Status
-                </th>
+                <SortableHeader label="Price" column="price" sort={query.sort} onSort={handleSort} />
+                <SortableHeader
+                  label="Quantity"
+                  column="available_quantity"
+                  sort={query.sort}
+                  onSort={handleSort}
+                />
+                <SortableHeader label="Status" column="status" sort={query.sort} onSort={handleSort} />
                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                   Actions
                 </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-slate-200">
-              {filteredProducts.length === 0 ? (
+              {products.length === 0 ? (
                 <tr>
-                  <td colSpan={7} className="px-6 py-8 text-center text-slate-500">
+                  <td colSpan={8} className="px-6 py-8 text-center text-slate-500">
                     No products found
                   </td>
                 </tr>
               ) : (
-                filteredProducts.map((product) => (
+                products.map((product) => (
                   <tr key={product.id} className="hover:bg-slate-50 transition">
+                    <td className="pl-6 py-4 w-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(product.id)}
+                        onChange={() => toggleSelected(product)}
+                        className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
-                      {product.name}
+                      <button
+                        onClick={() => navigate(`/products/${product.id}`)}
+                        className="hover:text-blue-600 transition"
+                      >
+                        {product.name}
+                      </button>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
                       {product.sku}
@@ -196,7 +446,25 @@ export default function Products() {
                       ${product.price.toFixed(2)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
-                      {product.quantity}
+                      <span className="font-medium text-slate-900">{product.available_quantity}</span>
+                      {' '}available
+                      {product.reserved_quantity > 0 && (
+                        <p className="text-xs text-amber-700">
+                          {product.quantity} on hand · {product.reserved_quantity} reserved
+                        </p>
+                      )}
+                      {product.product_stock
+                        .filter((stock) => stock.quantity > 0)
+                        .map((stock) => (
+                          <p key={stock.location_id} className="text-xs text-slate-500">
+                            {stock.locations.name}: {stock.quantity}
+                            {stock.reserved > 0 && ` (${stock.reserved} reserved)`}
+                          </p>
+                        ))}
+                      <p className="text-xs text-slate-400">
+                        Reorder at {product.reorder_point}
+                        {product.max_level !== null && ` · Max ${product.max_level}`}
+                      </p>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <StatusBadge status={product.status} />
@@ -209,6 +477,13 @@ export default function Products() {
                         >
                           <Edit2 className="w-4 h-4" />
                         </button>
+                        <button
+                          onClick={() => setHoldProduct(product)}
+                          title="Hold stock"
+                          className="text-amber-600 hover:text-amber-800 transition"
+                        >
+                          <Lock className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => handleDelete(product.id)}
                           className="text-red-600 hover:text-red-800 transition"
@@ -223,39 +498,46 @@ export default function Products() {
             </tbody>
           </table>
         </div>
+        <Pagination
+          page={query.page}
+          pageSize={PAGE_SIZE}
+          total={total}
+          onPageChange={(next) => setParams({ page: next > 1 ? String(next) : null })}
+        />
       </div>
 
       {modalOpen && (
         <ProductModal
           product={editingProduct}
           categories={categories}
+          suppliers={suppliers}
+          initialBarcode={newProductCode}
           onClose={handleModalClose}
         />
       )}
-    </div>
-  );
-}
 
-function StatusBadge({ status }: { status: string }) {
-  const colors = {
-    in_stock: 'bg-green-100 text-green-800',
-    low_stock: 'bg-amber-100 text-amber-800',
-    out_of_stock: 'bg-red-100 text-red-800',
-  };
+      {labelsOpen && (
+        <LabelPrintModal
+          products={selectedProducts}
+          onClose={() => setLabelsOpen(false)}
+        />
+      )}
 
-  const labels = {
-    in_stock: 'In Stock',
-    low_stock: 'Low Stock',
-    out_of_stock: 'Out of Stock',
-  };
+      {importOpen && (
+        <ProductImportModal
+          categories={categories}
+          isAdmin={profile?.role === 'admin'}
+          onClose={handleImportClose}
+        />
+      )}
 
-  return (
-    <span
-      className={`px-3 py-1 rounded-full text-xs font-semibold ${
-        colors[status as keyof typeof colors]
-      }`}
-    >
-      {labels[status as keyof typeof labels]}
-    </span>
+      {cameraOpen && (
+        <CameraScanner onDetected={handleScan} onClose={() => setCameraOpen(false)} />
+      )}
+
+      {holdProduct && (
+        <StockHoldModal product={holdProduct} locations={locations} onClose={handleModalClose} />
+      )}
+    </div>
   );
 }
@@ -0,0 +1,330 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, Send, PackageCheck, Ban, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { setPurchaseOrderStatus } from '../lib/purchaseOrders';
+import {
+  Location,
+  Product,
+  PurchaseOrderStatus,
+  PurchaseOrderWithDetails,
+  Supplier,
+} from '../types/database';
+import PurchaseOrderModal from '../components/PurchaseOrderModal';
+import ReceivePurchaseOrderModal from '../components/ReceivePurchaseOrderModal';
+
+export default function PurchaseOrders() {
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderWithDetails[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrderWithDetails | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrderWithDetails | null>(null);
+  const [filterStatus, setFilterStatus] = useState('');
+
+  useEffect(() => {
+    loadPurchaseOrders();
+    loadReferenceData();
+  }, []);
+
+  const loadPurchaseOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*, suppliers(*), locations(*), purchase_order_lines(*, products(*))')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPurchaseOrders(data || []);
+    } catch (error) {
+      console.error('Error loading purchase orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadReferenceData = async () => {
+    try {
+      const [suppliersRes, productsRes, locationsRes] = await Promise.all([
+        supabase.from('suppliers').select('*').order('name'),
+        supabase.from('products').select('*').order('name'),
+        supabase.from('locations').select('*').order('name'),
+      ]);
+
+      if (suppliersRes.error) throw suppliersRes.error;
+      if (productsRes.error) throw productsRes.error;
+      if (locationsRes.error) throw locationsRes.error;
+
+      setSuppliers(suppliersRes.data || []);
+      setProducts(productsRes.data || []);
+      setLocations(locationsRes.data || []);
+    } catch (error) {
+      console.error('Error loading purchase order data:', error);
+    }
+  };
+
+  const handleStatusChange = async (
+    purchaseOrder: PurchaseOrderWithDetails,
+    status: 'sent' | 'cancelled'
+  ) => {
+    const message =
+      status === 'sent'
+        ? `Mark ${purchaseOrder.po_number} as sent to ${purchaseOrder.suppliers.name}? It can no longer be edited.`
+        : `Cancel ${purchaseOrder.po_number}? Outstanding quantities will no longer be expected.`;
+    if (!confirm(message)) return;
+
+    try {
+      await setPurchaseOrderStatus(purchaseOrder.id, status);
+      loadPurchaseOrders();
+    } catch (error) {
+      console.error('Error updating purchase order:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update purchase order');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this draft purchase order?')) return;
+
+    try {
+      const { error } = await supabase.from('purchase_orders').delete().eq('id', id);
+      if (error) throw error;
+      loadPurchaseOrders();
+    } catch (error) {
+      console.error('Error deleting purchase order:', error);
+      alert('Failed to delete purchase order');
+    }
+  };
+
+  const handleEdit = (purchaseOrder: PurchaseOrderWithDetails) => {
+    setEditingOrder(purchaseOrder);
+    setModalOpen(true);
+  };
+
+  const handleModalClose = () => {
+    setModalOpen(false);
+    setEditingOrder(null);
+    setReceivingOrder(null);
+    loadPurchaseOrders();
+  };
+
+  const filteredOrders = purchaseOrders.filter(
+    (purchaseOrder) => !filterStatus || purchaseOrder.status === filterStatus
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-slate-600">Loading purchase orders...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Purchase Orders</h1>
+          <p className="text-slate-600 mt-1">Order stock from suppliers and receive deliveries</p>
+        </div>
+        <button
+          onClick={() => setModalOpen(true)}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
+        >
+          <Plus className="w-5 h-5" />
+          New Purchase Order
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+        <select
+          value={filterStatus}
+          onChange={(e) => setFilterStatus(e.target.value)}
+          className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        >
+          <option value="">All Status</option>
+          <option value="draft">Draft</option>
+          <option value="sent">Sent</option>
+          <option value="partially_received">Partially Received</option>
+          <option value="received">Received</option>
+          <option value="cancelled">Cancelled</option>
+        </select>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  PO Number
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Received
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Expected
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-200">
+              {filteredOrders.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-slate-500">
+                    No purchase orders found
+                  </td>
+                </tr>
+              ) : (
+                filteredOrders.map((purchaseOrder) => {
+                  const lines = purchaseOrder.purchase_order_lines;
+                  const ordered = lines.reduce((sum, line) => sum + line.quantity_ordered, 0);
+                  const received = lines.reduce((sum, line) => sum + line.quantity_received, 0);
+                  const total = lines.reduce(
+                    (sum, line) => sum + line.quantity_ordered * line.unit_cost,
+                    0
+                  );
+
+                  return (
+                    <tr key={purchaseOrder.id} className="hover:bg-slate-50 transition">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                        {purchaseOrder.po_number}
+                        <p className="text-xs text-slate-500">
+                          {new Date(purchaseOrder.created_at).toLocaleDateString()}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {purchaseOrder.suppliers.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <PurchaseOrderStatusBadge status={purchaseOrder.status} />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {received} / {ordered}
+                        <div className="w-24 h-1.5 bg-slate-100 rounded-full mt-1 overflow-hidden">
+                          <div
+                            className="h-full bg-green-500"
+                            style={{ width: `${ordered ? (received / ordered) * 100 : 0}%` }}
+                          />
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        ${total.toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {purchaseOrder.expected_date
+                          ? new Date(purchaseOrder.expected_date).toLocaleDateString()
+                          : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="flex gap-2">
+                          {purchaseOrder.status === 'draft' && (
+                            <>
+                              <button
+                                onClick={() => handleEdit(purchaseOrder)}
+                                title="Edit"
+                                className="text-blue-600 hover:text-blue-800 transition"
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleStatusChange(purchaseOrder, 'sent')}
+                                title="Mark as sent"
+                                className="text-blue-600 hover:text-blue-800 transition"
+                              >
+                                <Send className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDelete(purchaseOrder.id)}
+                                title="Delete"
+                                className="text-red-600 hover:text-red-800 transition"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                          {(purchaseOrder.status === 'sent' ||
+                            purchaseOrder.status === 'partially_received') && (
+                            <>
+                              <button
+                                onClick={() => setReceivingOrder(purchaseOrder)}
+                                title="Receive goods"
+                                className="text-green-600 hover:text-green-800 transition"
+                              >
+                                <PackageCheck className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleStatusChange(purchaseOrder, 'cancelled')}
+                                title="Cancel"
+                                className="text-red-600 hover:text-red-800 transition"
+                              >
+                                <Ban className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {modalOpen && (
+        <PurchaseOrderModal
+          purchaseOrder={editingOrder}
+          suppliers={suppliers}
+          products={products}
+          locations={locations}
+          onClose={handleModalClose}
+        />
+      )}
+
+      {receivingOrder && (
+        <ReceivePurchaseOrderModal
+          purchaseOrder={receivingOrder}
+          locations={locations}
+          onClose={handleModalClose}
+        />
+      )}
+    </div>
+  );
+}
+
+function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  const colors = {
+    draft: 'bg-slate-100 text-slate-800',
+    sent: 'bg-blue-100 text-blue-800',
+    partially_received: 'bg-amber-100 text-amber-800',
+    received: 'bg-green-100 text-green-800',
+    cancelled: 'bg-red-100 text-red-800',
+  };
+
+  const labels = {
+    draft: 'Draft',
+    sent: 'Sent',
+    partially_received: 'Partially Received',
+    received: 'Received',
+    cancelled: 'Cancelled',
+  };
+
+  return (
+    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${colors[status]}`}>
+      {labels[status]}
+    </span>
+  );
+}
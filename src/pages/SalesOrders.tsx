@@ -0,0 +1,331 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, CheckCircle, Truck, Ban, Trash2, ClipboardList, Search } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { cancelSalesOrder, confirmSalesOrder, shipSalesOrder } from '../lib/salesOrders';
+import { Location, Product, SalesOrderStatus, SalesOrderWithDetails } from '../types/database';
+import SalesOrderModal from '../components/SalesOrderModal';
+import PickListModal from '../components/PickListModal';
+
+type SalesOrderAction = 'confirm' | 'ship' | 'cancel';
+
+export default function SalesOrders() {
+  const [salesOrders, setSalesOrders] = useState<SalesOrderWithDetails[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<SalesOrderWithDetails | null>(null);
+  const [pickListOrder, setPickListOrder] = useState<SalesOrderWithDetails | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState('');
+
+  useEffect(() => {
+    loadSalesOrders();
+    loadReferenceData();
+  }, []);
+
+  const loadSalesOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sales_orders')
+        .select('*, locations(*), sales_order_lines(*, products(*, product_stock(*), stock_lots(*)))')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setSalesOrders(data || []);
+    } catch (error) {
+      console.error('Error loading sales orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadReferenceData = async () => {
+    try {
+      const [productsRes, locationsRes] = await Promise.all([
+        supabase.from('products').select('*').order('name'),
+        supabase.from('locations').select('*').order('name'),
+      ]);
+
+      if (productsRes.error) throw productsRes.error;
+      if (locationsRes.error) throw locationsRes.error;
+
+      setProducts(productsRes.data || []);
+      setLocations(locationsRes.data || []);
+    } catch (error) {
+      console.error('Error loading sales order data:', error);
+    }
+  };
+
+  const handleAction = async (salesOrder: SalesOrderWithDetails, action: SalesOrderAction) => {
+    const messages = {
+      confirm: `Confirm ${salesOrder.order_number} and allocate its stock?`,
+      ship: `Ship ${salesOrder.order_number}? Stock will be removed for every line.`,
+      cancel: `Cancel ${salesOrder.order_number}? Allocated stock will be released.`,
+    };
+    if (!confirm(messages[action])) return;
+
+    try {
+      if (action === 'confirm') {
+        await confirmSalesOrder(salesOrder.id);
+      } else if (action === 'ship') {
+        await shipSalesOrder(salesOrder.id);
+      } else {
+        await cancelSalesOrder(salesOrder.id);
+      }
+      loadSalesOrders();
+    } catch (error) {
+      console.error('Error updating sales order:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update sales order');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this draft sales order?')) return;
+
+    try {
+      const { error } = await supabase.from('sales_orders').delete().eq('id', id);
+      if (error) throw error;
+      loadSalesOrders();
+    } catch (error) {
+      console.error('Error deleting sales order:', error);
+      alert('Failed to delete sales order');
+    }
+  };
+
+  const handleEdit = (salesOrder: SalesOrderWithDetails) => {
+    setEditingOrder(salesOrder);
+    setModalOpen(true);
+  };
+
+  const handleModalClose = () => {
+    setModalOpen(false);
+    setEditingOrder(null);
+    loadSalesOrders();
+  };
+
+  const filteredOrders = salesOrders.filter((salesOrder) => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      salesOrder.order_number.toLowerCase().includes(term) ||
+      salesOrder.customer_name.toLowerCase().includes(term);
+    const matchesStatus = !filterStatus || salesOrder.status === filterStatus;
+    return matchesSearch && matchesStatus;
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-slate-600">Loading sales orders...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Sales Orders</h1>
+          <p className="text-slate-600 mt-1">Allocate, pick and ship customer orders</p>
+        </div>
+        <button
+          onClick={() => setModalOpen(true)}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
+        >
+          <Plus className="w-5 h-5" />
+          New Sales Order
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="relative md:col-span-2">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search by order number or customer..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            />
+          </div>
+
+          <select
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value)}
+            className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          >
+            <option value="">All Status</option>
+            <option value="draft">Draft</option>
+            <option value="confirmed">Confirmed</option>
+            <option value="shipped">Shipped</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Order
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Customer
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Ship From
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Units
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-200">
+              {filteredOrders.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-slate-500">
+                    No sales orders found
+                  </td>
+                </tr>
+              ) : (
+                filteredOrders.map((salesOrder) => {
+                  const lines = salesOrder.sales_order_lines;
+                  const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+                  const total = lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0);
+
+                  return (
+                    <tr key={salesOrder.id} className="hover:bg-slate-50 transition">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                        {salesOrder.order_number}
+                        <p className="text-xs text-slate-500">
+                          {new Date(salesOrder.created_at).toLocaleDateString()}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {salesOrder.customer_name}
+                        {salesOrder.customer_email && (
+                          <p className="text-xs text-slate-500">{salesOrder.customer_email}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {salesOrder.locations?.name || 'Default location'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <SalesOrderStatusBadge status={salesOrder.status} />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{units}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        ${total.toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="flex gap-2">
+                          {salesOrder.status === 'draft' && (
+                            <>
+                              <button
+                                onClick={() => handleEdit(salesOrder)}
+                                title="Edit"
+                                className="text-blue-600 hover:text-blue-800 transition"
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleAction(salesOrder, 'confirm')}
+                                title="Confirm and allocate stock"
+                                className="text-green-600 hover:text-green-800 transition"
+                              >
+                                <CheckCircle className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDelete(salesOrder.id)}
+                                title="Delete"
+                                className="text-red-600 hover:text-red-800 transition"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                          {salesOrder.status === 'confirmed' && (
+                            <>
+                              <button
+                                onClick={() => setPickListOrder(salesOrder)}
+                                title="Pick list"
+                                className="text-blue-600 hover:text-blue-800 transition"
+                              >
+                                <ClipboardList className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleAction(salesOrder, 'ship')}
+                                title="Ship"
+                                className="text-green-600 hover:text-green-800 transition"
+                              >
+                                <Truck className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleAction(salesOrder, 'cancel')}
+                                title="Cancel"
+                                className="text-red-600 hover:text-red-800 transition"
+                              >
+                                <Ban className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {modalOpen && (
+        <SalesOrderModal
+          salesOrder={editingOrder}
+          products={products}
+          locations={locations}
+          onClose={handleModalClose}
+        />
+      )}
+
+      {pickListOrder && (
+        <PickListModal salesOrder={pickListOrder} onClose={() => setPickListOrder(null)} />
+      )}
+    </div>
+  );
+}
+
+function SalesOrderStatusBadge({ status }: { status: SalesOrderStatus }) {
+  const colors = {
+    draft: 'bg-slate-100 text-slate-800',
+    confirmed: 'bg-blue-100 text-blue-800',
+    shipped: 'bg-green-100 text-green-800',
+    cancelled: 'bg-red-100 text-red-800',
+  };
+
+  const labels = {
+    draft: 'Draft',
+    confirmed: 'Confirmed',
+    shipped: 'Shipped',
+    cancelled: 'Cancelled',
+  };
+
+  return (
+    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${colors[status]}`}>
+      {labels[status]}
+    </span>
+  );
+}
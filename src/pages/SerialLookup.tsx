@@ -0,0 +1,205 @@
+import { useState, FormEvent } from 'react';
+import { Search } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { SerialNumberStatus, SerialNumberWithDetails } from '../types/database';
+
+export default function SerialLookup() {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [results, setResults] = useState<SerialNumberWithDetails[] | null>(null);
+  const [selected, setSelected] = useState<SerialNumberWithDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSearch = async (e: FormEvent) => {
+    e.preventDefault();
+    const term = searchTerm.trim();
+    if (!term) return;
+
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('serial_numbers')
+        .select(
+          '*, products(*), locations(*), stock_transaction_serials(stock_transactions(*, locations(*), profiles(*), sales_order_lines(sales_orders(id, order_number))))'
+        )
+        .ilike('serial_number', `%${term}%`)
+        .order('serial_number')
+        .limit(25);
+
+      if (error) throw error;
+      setResults(data || []);
+      setSelected(data?.length === 1 ? data[0] : null);
+    } catch (error) {
+      console.error('Error looking up serial number:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const history = selected
+    ? selected.stock_transaction_serials
+        .map((link) => link.stock_transactions)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">Serial Numbers</h1>
+        <p className="text-slate-600 mt-1">Find where a unit is and everywhere it has been</p>
+      </div>
+
+      <form
+        onSubmit={handleSearch}
+        className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 flex gap-4"
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Scan or type a serial number..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            autoFocus
+            className="w-full pl-10 pr-4 py-2 font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg transition"
+        >
+          {loading ? 'Searching...' : 'Look Up'}
+        </button>
+      </form>
+
+      {results && results.length === 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 px-6 py-8 text-center text-slate-500">
+          No serial numbers match "{searchTerm}"
+        </div>
+      )}
+
+      {results && results.length > 1 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <table className="w-full">
+            <tbody className="divide-y divide-slate-200">
+              {results.map((serial) => (
+                <tr
+                  key={serial.id}
+                  onClick={() => setSelected(serial)}
+                  className={`cursor-pointer transition ${
+                    selected?.id === serial.id ? 'bg-blue-50' : 'hover:bg-slate-50'
+                  }`}
+                >
+                  <td className="px-6 py-3 text-sm font-mono font-medium text-slate-900">
+                    {serial.serial_number}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-slate-600">{serial.products.name}</td>
+                  <td className="px-6 py-3">
+                    <SerialStatusBadge status={serial.status} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200 flex items-start justify-between">
+            <div>
+              <p className="text-xl font-semibold font-mono text-slate-900">
+                {selected.serial_number}
+              </p>
+              <p className="text-sm text-slate-600">
+                {selected.products.name} · {selected.products.sku}
+              </p>
+            </div>
+            <div className="text-right">
+              <SerialStatusBadge status={selected.status} />
+              {selected.locations && (
+                <p className="text-sm text-slate-600 mt-2">{selected.locations.name}</p>
+              )}
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Location
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Notes
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {history.map((transaction) => (
+                  <tr key={transaction.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {new Date(transaction.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                      {transaction.transfer_id
+                        ? transaction.type === 'OUT'
+                          ? 'Transfer out'
+                          : 'Transfer in'
+                        : transaction.type}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {transaction.locations.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {transaction.profiles.name}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600">
+                      {transaction.sales_order_lines && (
+                        <span className="inline-block mr-2 px-2 py-0.5 rounded bg-slate-100 text-xs font-semibold text-slate-700">
+                          {transaction.sales_order_lines.sales_orders.order_number}
+                        </span>
+                      )}
+                      {transaction.notes || (!transaction.sales_order_lines && '-')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SerialStatusBadge({ status }: { status: SerialNumberStatus }) {
+  const colors = {
+    in_stock: 'bg-green-100 text-green-800',
+    in_transit: 'bg-blue-100 text-blue-800',
+    issued: 'bg-slate-100 text-slate-800',
+    written_off: 'bg-red-100 text-red-800',
+  };
+
+  const labels = {
+    in_stock: 'In Stock',
+    in_transit: 'In Transit',
+    issued: 'Issued',
+    written_off: 'Written Off',
+  };
+
+  return (
+    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${colors[status]}`}>
+      {labels[status]}
+    </span>
+  );
+}
@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Plus, ClipboardCheck, Ban } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { cancelStockCount } from '../lib/stockCounts';
+import { Category, Location, StockCountStatus, StockCountWithDetails } from '../types/database';
+import StockCountModal from '../components/StockCountModal';
+import StockCountSheetModal from '../components/StockCountSheetModal';
+import { useAuth } from '../contexts/AuthContext';
+
+export default function StockCounts() {
+  const [stockCounts, setStockCounts] = useState<StockCountWithDetails[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [activeCount, setActiveCount] = useState<StockCountWithDetails | null>(null);
+  const [filterStatus, setFilterStatus] = useState('');
+  const { profile } = useAuth();
+
+  useEffect(() => {
+    loadStockCounts();
+    loadReferenceData();
+  }, []);
+
+  const loadStockCounts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('stock_counts')
+        .select('*, locations(*), categories(*), stock_count_lines(*, products(*))')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setStockCounts(data || []);
+    } catch (error) {
+      console.error('Error loading stock counts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadReferenceData = async () => {
+    try {
+      const [locationsRes, categoriesRes] = await Promise.all([
+        supabase.from('locations').select('*').order('name'),
+        supabase.from('categories').select('*').order('name'),
+      ]);
+
+      if (locationsRes.error) throw locationsRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+
+      setLocations(locationsRes.data || []);
+      setCategories(categoriesRes.data || []);
+    } catch (error) {
+      console.error('Error loading stock count data:', error);
+    }
+  };
+
+  const handleCancel = async (stockCount: StockCountWithDetails) => {
+    if (!confirm(`Cancel ${stockCount.count_number}? No adjustments will be posted.`)) return;
+
+    try {
+      await cancelStockCount(stockCount.id);
+      loadStockCounts();
+    } catch (error) {
+      console.error('Error cancelling stock count:', error);
+      alert(error instanceof Error ? error.message : 'Failed to cancel stock count');
+    }
+  };
+
+  const handleModalClose = () => {
+    setModalOpen(false);
+    setActiveCount(null);
+    loadStockCounts();
+  };
+
+  const filteredCounts = stockCounts.filter(
+    (stockCount) => !filterStatus || stockCount.status === filterStatus
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-slate-600">Loading stock counts...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Stock Counts</h1>
+          <p className="text-slate-600 mt-1">Count shelves and reconcile differences</p>
+        </div>
+        <button
+          onClick={() => setModalOpen(true)}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
+        >
+          <Plus className="w-5 h-5" />
+          New Count
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+        <select
+          value={filterStatus}
+          onChange={(e) => setFilterStatus(e.target.value)}
+          className="px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        >
+          <option value="">All Status</option>
+          <option value="counting">Counting</option>
+          <option value="review">In Review</option>
+          <option value="approved">Approved</option>
+          <option value="cancelled">Cancelled</option>
+        </select>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Count
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Scope
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Counted
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Variances
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-200">
+              {filteredCounts.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-slate-500">
+                    No stock counts found
+                  </td>
+                </tr>
+              ) : (
+                filteredCounts.map((stockCount) => {
+                  const lines = stockCount.stock_count_lines;
+                  const counted = lines.filter((line) => line.counted_quantity !== null);
+                  const variances = counted.filter(
+                    (line) => line.counted_quantity !== line.system_quantity
+                  ).length;
+                  const open = stockCount.status === 'counting' || stockCount.status === 'review';
+
+                  return (
+                    <tr key={stockCount.id} className="hover:bg-slate-50 transition">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                        {stockCount.count_number}
+                        <p className="text-xs text-slate-500">
+                          {new Date(stockCount.created_at).toLocaleDateString()}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {stockCount.locations.name}
+                        <p className="text-xs text-slate-500">
+                          {stockCount.categories?.name || 'All categories'}
+                          {stockCount.blind && ' · Blind'}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <StockCountStatusBadge status={stockCount.status} />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {counted.length} / {lines.length}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {stockCount.status === 'counting' && stockCount.blind ? '-' : variances}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {open && (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => setActiveCount(stockCount)}
+                              title={stockCount.status === 'review' ? 'Review variances' : 'Enter counts'}
+                              className="text-blue-600 hover:text-blue-800 transition"
+                            >
+                              <ClipboardCheck className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleCancel(stockCount)}
+                              title="Cancel"
+                              className="text-red-600 hover:text-red-800 transition"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {modalOpen && (
+        <StockCountModal
+          locations={locations}
+          categories={categories}
+          onClose={handleModalClose}
+        />
+      )}
+
+      {activeCount && (
+        <StockCountSheetModal
+          stockCount={activeCount}
+          isAdmin={profile?.role === 'admin'}
+          onClose={handleModalClose}
+        />
+      )}
+    </div>
+  );
+}
+
+function StockCountStatusBadge({ status }: { status: StockCountStatus }) {
+  const colors = {
+    counting: 'bg-blue-100 text-blue-800',
+    review: 'bg-amber-100 text-amber-800',
+    approved: 'bg-green-100 text-green-800',
+    cancelled: 'bg-red-100 text-red-800',
+  };
+
+  const labels = {
+    counting: 'Counting',
+    review: 'In Review',
+    approved: 'Approved',
+    cancelled: 'Cancelled',
+  };
+
+  return (
+    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${colors[status]}`}>
+      {labels[status]}
+    </span>
+  );
+}
@@ -1,31 +1,213 @@
-import { useEffect, useState } from 'react';
-import { Plus, TrendingUp, TrendingDown } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Plus, Search, X, ArrowLeftRight } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { StockTransactionWithDetails, Product } from '../types/database';
+import { DATE_PRESETS, getDateRangeBounds, getPresetRange } from '../lib/dateRanges';
+import {
+  buildSearchFilter,
+  escapeLikePattern,
+  fetchAllRows,
+  formatSort,
+  getPageRange,
+  PAGE_SIZE,
+  parsePage,
+  parseSort,
+  SortState,
+} from '../lib/pagination';
+import {
+  StockTransactionWithDetails,
+  StockTransferStatus,
+  Product,
+  Location,
+  Category,
+  Profile,
+  Supplier,
+} from '../types/database';
 import StockModal from '../components/StockModal';
+import ProductModal from '../components/ProductModal';
+import TransferModal from '../components/TransferModal';
+import ExportMenu from '../components/ExportMenu';
+import VoidTransactionModal from '../components/VoidTransactionModal';
+import SortableHeader from '../components/SortableHeader';
+import TransactionTypeBadge from '../components/TransactionTypeBadge';
+import ProductPicker from '../components/ProductPicker';
+import Pagination from '../components/Pagination';
+import {
+  cancelStockTransfer,
+  getTransactionTotals,
+  REASON_LABELS,
+  receiveStockTransfer,
+  TransactionTotals,
+} from '../lib/stock';
 import { useAuth } from '../contexts/AuthContext';
+import { useQueryParams } from '../hooks/useQueryParams';
+
+interface TransactionQuery {
+  search: string;
+  notes: string;
+  type: string;
+  productId: string;
+  categoryId: string;
+  userId: string;
+  from: string;
+  to: string;
+  sort: SortState;
+  page: number;
+}
+
+// Query string keys of the filters, cleared together
+const FILTER_PARAMS = ['search', 'notes', 'type', 'product', 'category', 'user', 'from', 'to'];
+
+const DEFAULT_SORT: SortState = { column: 'created_at', ascending: false };
+const SORT_COLUMNS = ['created_at', 'type', 'quantity'];
+
+function selectTransactions(query: TransactionQuery, options?: { count: 'exact' }) {
+  let request = supabase
+    .from('stock_transactions')
+    .select(
+      '*, products!inner(*), profiles(*), locations(*), stock_transfers(*, from_location:locations!from_location_id(*), to_location:locations!to_location_id(*)), purchase_order_lines(purchase_orders(id, po_number)), sales_order_lines(sales_orders(id, order_number)), stock_transaction_lots(quantity, stock_lots(lot_number, expiry_date)), stock_transaction_serials(serial_numbers(serial_number))',
+      options
+    );
+
+  // A transfer is listed once, by the leg that dispatched it
+  if (query.type === 'TRANSFER') {
+    request = request.not('transfer_id', 'is', null).eq('type', 'OUT');
+  } else if (query.type) {
+    request = request.is('transfer_id', null).eq('type', query.type);
+  } else {
+    request = request.or('transfer_id.is.null,type.eq.OUT');
+  }
+
+  const term = query.search.trim();
+  if (term) {
+    request = request.or(buildSearchFilter(term, ['name', 'sku']), { referencedTable: 'products' });
+  }
+  if (query.notes.trim()) {
+    request = request.ilike('notes', `%${escapeLikePattern(query.notes.trim())}%`);
+  }
+  if (query.productId) request = request.eq('product_id', query.productId);
+  if (query.categoryId) request = request.eq('products.category_id', query.categoryId);
+  if (query.userId) request = request.eq('user_id', query.userId);
+
+  const { start, end } = getDateRangeBounds(query.from, query.to);
+  if (start) request = request.gte('created_at', start);
+  if (end) request = request.lt('created_at', end);
+
+  return request.order(query.sort.column, { ascending: query.sort.ascending }).order('id');
+}
 
 export default function StockTransactions() {
   const [transactions, setTransactions] = useState<StockTransactionWithDetails[]>([]);
-  const [products, setProducts] = useState<Product[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totals, setTotals] = useState<TransactionTotals | null>(null);
+  const [balances, setBalances] = useState<Map<string, number>>(new Map());
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [filterProduct, setFilterProduct] = useState<Product | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [loading, setLoading] = useState(true);
   const [modalOpen, setModalOpen] = useState(false);
-  const { user } = useAuth();
+  const [transferModalOpen, setTransferModalOpen] = useState(false);
+  const [newProductCode, setNewProductCode] = useState<string | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [voiding, setVoiding] = useState<StockTransactionWithDetails | null>(null);
+  const { user, profile } = useAuth();
+  const latestRequest = useRef(0);
+  const [params, setParams] = useQueryParams();
+  const parsedSort = parseSort(params.get('sort'), DEFAULT_SORT);
+  const query: TransactionQuery = {
+    search: params.get('search') ?? '',
+    notes: params.get('notes') ?? '',
+    type: params.get('type') ?? '',
+    productId: params.get('product') ?? '',
+    categoryId: params.get('category') ?? '',
+    userId: params.get('user') ?? '',
+    from: params.get('from') ?? '',
+    to: params.get('to') ?? '',
+    sort: SORT_COLUMNS.includes(parsedSort.column) ? parsedSort : DEFAULT_SORT,
+    page: parsePage(params.get('page')),
+  };
 
   useEffect(() => {
-    loadTransactions();
-    loadProducts();
+    loadLocations();
+    loadFilterOptions();
   }, []);
 
-  const loadTransactions = async () => {
+  const { search, notes, type, productId, categoryId, userId, from, to, page } = query;
+  const { column: sortColumn, ascending: sortAscending } = query.sort;
+
+  useEffect(() => {
+    loadFilterProduct(productId);
+  }, [productId]);
+
+  // Typing in the search boxes waits for a pause before querying
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      loadTransactions({
+        search,
+        notes,
+        type,
+        productId,
+        categoryId,
+        userId,
+        from,
+        to,
+        sort: { column: sortColumn, ascending: sortAscending },
+        page,
+      });
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [search, notes, type, productId, categoryId, userId, from, to, sortColumn, sortAscending, page]);
+
+  const loadTransactions = async (current: TransactionQuery) => {
+    const request = ++latestRequest.current;
+
     try {
-      const { data, error } = await supabase
-        .from('stock_transactions')
-        .select('*, products(*), profiles(*)')
-        .order('created_at', { ascending: false });
+      const [rangeFrom, rangeTo] = getPageRange(current.page);
+      const { start, end } = getDateRangeBounds(current.from, current.to);
+      const [pageRes, totalsRes] = await Promise.all([
+        selectTransactions(current, { count: 'exact' }).range(rangeFrom, rangeTo),
+        // Transfers don't change the total, so there is nothing to add up for them
+        current.type === 'TRANSFER'
+          ? null
+          : getTransactionTotals({
+              start,
+              end,
+              productId: current.productId || null,
+              categoryId: current.categoryId || null,
+              userId: current.userId || null,
+              type: current.type || null,
+              search: current.search.trim() ? escapeLikePattern(current.search.trim()) : null,
+              notes: current.notes.trim() ? escapeLikePattern(current.notes.trim()) : null,
+            }),
+      ]);
 
-      if (error) throw error;
-      setTransactions(data || []);
+      if (pageRes.error) throw pageRes.error;
+      const rows: StockTransactionWithDetails[] = pageRes.data || [];
+
+      // The balance after each movement comes from the product's whole ledger, not just this page
+      let rowBalances = new Map<string, number>();
+      if (current.productId && rows.length > 0) {
+        const { data, error } = await supabase
+          .from('stock_transaction_balances')
+          .select('id, balance')
+          .eq('product_id', current.productId)
+          .in(
+            'id',
+            rows.map((row) => row.id)
+          );
+
+        if (error) throw error;
+        rowBalances = new Map(
+          (data || []).map((row: { id: string; balance: number }) => [row.id, row.balance])
+        );
+      }
+
+      // A slower, older response must not overwrite a newer one
+      if (request !== latestRequest.current) return;
+      setTransactions(rows);
+      setTotal(pageRes.count ?? 0);
+      setTotals(totalsRes);
+      setBalances(rowBalances);
     } catch (error) {
       console.error('Error loading transactions:', error);
     } finally {
@@ -33,24 +215,156 @@ export default function StockTransactions() {
     }
   };
 
-  const loadProducts = async () => {
+  // Only the product named in the filter is needed, to show it in the picker
+  const loadFilterProduct = async (id: string) => {
+    if (!id) {
+      setFilterProduct(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.from('products').select('*').eq('id', id).maybeSingle();
+
+      if (error) throw error;
+      setFilterProduct(data);
+    } catch (error) {
+      console.error('Error loading product:', error);
+    }
+  };
+
+  const loadFilterOptions = async () => {
+    try {
+      const [usersRes, categoriesRes] = await Promise.all([
+        supabase.from('profiles').select('*').order('name'),
+        supabase.from('categories').select('*').order('name'),
+      ]);
+
+      if (usersRes.error) throw usersRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+
+      setUsers(usersRes.data || []);
+      setCategories(categoriesRes.data || []);
+    } catch (error) {
+      console.error('Error loading transaction filters:', error);
+    }
+  };
+
+  const loadLocations = async () => {
     try {
       const { data, error } = await supabase
-        .from('products')
+        .from('locations')
         .select('*')
         .order('name');
 
       if (error) throw error;
-      setProducts(data || []);
+      setLocations(data || []);
     } catch (error) {
-      console.error('Error loading products:', error);
+      console.error('Error loading locations:', error);
     }
   };
 
   const handleModalClose = () => {
     setModalOpen(false);
-    loadTransactions();
-    loadProducts();
+    setTransferModalOpen(false);
+    setVoiding(null);
+    loadTransactions(query);
+  };
+
+  // A scanned code nobody knows yet: create the product, then go back to recording stock
+  const handleCreateProduct = async (code: string) => {
+    try {
+      const [categoriesRes, suppliersRes] = await Promise.all([
+        supabase.from('categories').select('*').order('name'),
+        supabase.from('suppliers').select('*').order('name'),
+      ]);
+
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (suppliersRes.error) throw suppliersRes.error;
+
+      setCategories(categoriesRes.data || []);
+      setSuppliers(suppliersRes.data || []);
+      setModalOpen(false);
+      setNewProductCode(code);
+    } catch (error) {
+      console.error('Error loading product form data:', error);
+    }
+  };
+
+  const handleProductModalClose = () => {
+    setNewProductCode(null);
+    setModalOpen(true);
+  };
+
+  const handleTransferAction = async (transferId: string, action: 'receive' | 'cancel') => {
+    if (action === 'cancel' && !confirm('Cancel this transfer and return the stock to its source?')) {
+      return;
+    }
+
+    try {
+      if (action === 'receive') {
+        await receiveStockTransfer(transferId);
+      } else {
+        await cancelStockTransfer(transferId);
+      }
+      loadTransactions(query);
+    } catch (error) {
+      console.error('Error updating transfer:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update transfer');
+    }
+  };
+
+  const isAdmin = profile?.role === 'admin';
+  const transactionsById = new Map(transactions.map((transaction) => [transaction.id, transaction]));
+
+  const updateQuery = (updates: Record<string, string | null>) => {
+    // Any change other than the page itself starts again from the first page
+    setParams({ page: null, ...updates });
+  };
+
+  const clearFilters = () => {
+    updateQuery(Object.fromEntries(FILTER_PARAMS.map((key) => [key, null])));
+  };
+
+  const handleSort = (sort: SortState) => {
+    updateQuery({ sort: formatSort(sort) === formatSort(DEFAULT_SORT) ? null : formatSort(sort) });
+  };
+
+  // Exports every transaction matching the filters, not just the current page
+  const getExportRows = async () => {
+    const matching = await fetchAllRows<StockTransactionWithDetails>((from, to) =>
+      selectTransactions(query).range(from, to)
+    );
+
+    return matching.map((transaction) => {
+      const transfer = transaction.stock_transfers;
+
+      return {
+        Date: transfer ? transfer.dispatched_at : transaction.created_at,
+        Product: transaction.products.name,
+        SKU: transaction.products.sku,
+        Location: transfer
+          ? `${transfer.from_location.name} → ${transfer.to_location.name}`
+          : transaction.locations.name,
+        Type: transfer ? `TRANSFER (${transfer.status})` : transaction.type,
+        Reason: transaction.reason ? REASON_LABELS[transaction.reason] : null,
+        Quantity: transfer ? transfer.quantity : transaction.quantity,
+        'Unit Cost': transaction.unit_cost,
+        Lots: transaction.stock_transaction_lots
+          .map((lot) => `${lot.stock_lots.lot_number} × ${lot.quantity}`)
+          .join(', '),
+        Serials: transaction.stock_transaction_serials
+          .map((serial) => serial.serial_numbers.serial_number)
+          .join(', '),
+        Reference:
+          transaction.purchase_order_lines?.purchase_orders.po_number ??
+          transaction.sales_order_lines?.sales_orders.order_number ??
+          null,
+        User: transaction.profiles.name,
+        Notes: transfer ? transfer.notes : transaction.notes,
+        Voided: transaction.voided_at,
+        'Void Reason': transaction.void_reason,
+      };
+    });
   };
 
   if (loading) {
@@ -61,6 +375,11 @@ export default function StockTransactions() {
     );
   }
 
+  const hasFilters = FILTER_PARAMS.some((key) => params.get(key));
+  const columnCount = query.productId ? 8 : 7;
+  const inputClass =
+    'px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -68,32 +387,168 @@ export default function StockTransactions() {
           <h1 className="text-3xl font-bold text-slate-900">Stock Transactions</h1>
           <p className="text-slate-600 mt-1">Track all stock movements</p>
         </div>
-        <button
-          onClick={() => setModalOpen(true)}
-          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
-        >
-          <Plus className="w-5 h-5" />
-          Add Transaction
-        </button>
+        <div className="flex gap-3">
+          <ExportMenu name="stock-transactions" getRows={getExportRows} />
+          <button
+            onClick={() => setTransferModalOpen(true)}
+            className="flex items-center gap-2 border border-slate-300 bg-white hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg transition"
+          >
+            <ArrowLeftRight className="w-5 h-5" />
+            Transfer
+          </button>
+          <button
+            onClick={() => setModalOpen(true)}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition shadow-lg hover:shadow-xl"
+          >
+            <Plus className="w-5 h-5" />
+            Add Transaction
+          </button>
+        </div>
       </div>
 
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search product name or SKU..."
+              value={query.search}
+              onChange={(e) => updateQuery({ search: e.target.value })}
+              className={`w-full pl-10 pr-4 ${inputClass}`}
+            />
+          </div>
+
+          <input
+            type="text"
+            placeholder="Notes contain..."
+            value={query.notes}
+            onChange={(e) => updateQuery({ notes: e.target.value })}
+            className={inputClass}
+          />
+
+          <select
+            value={query.type}
+            onChange={(e) => updateQuery({ type: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All Types</option>
+            <option value="IN">Stock In</option>
+            <option value="OUT">Stock Out</option>
+            <option value="ADJUST">Adjustments</option>
+            <option value="TRANSFER">Transfers</option>
+          </select>
+
+          <ProductPicker
+            selected={filterProduct}
+            onSelect={(product) => updateQuery({ product: product?.id ?? null })}
+            placeholder="All products"
+          />
+
+          <select
+            value={query.categoryId}
+            onChange={(e) => updateQuery({ category: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All Categories</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={query.userId}
+            onChange={(e) => updateQuery({ user: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">All Users</option>
+            {users.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="date"
+            value={query.from}
+            onChange={(e) => updateQuery({ from: e.target.value })}
+            title="From"
+            className={inputClass}
+          />
+          <span className="text-slate-500">to</span>
+          <input
+            type="date"
+            value={query.to}
+            onChange={(e) => updateQuery({ to: e.target.value })}
+            title="To"
+            className={inputClass}
+          />
+          {DATE_PRESETS.map(({ preset, label }) => {
+            const range = getPresetRange(preset);
+            const active = query.from === range.from && query.to === range.to;
+
+            return (
+              <button
+                key={preset}
+                onClick={() => updateQuery(range)}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition ${
+                  active
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                }`}
+              >
+                {label}
+              </button>
+            );
+          })}
+          {hasFilters && (
+            <button
+              onClick={clearFilters}
+              className="flex items-center gap-1 ml-auto text-sm text-slate-600 hover:text-slate-900 transition"
+            >
+              <X className="w-4 h-4" />
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      {totals && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <TotalCard label="Stock In" value={totals.stock_in} color="text-green-700" />
+          <TotalCard label="Stock Out" value={-totals.stock_out} color="text-red-700" />
+          <TotalCard
+            label="Net Change"
+            value={totals.net}
+            color={totals.net < 0 ? 'text-red-700' : 'text-slate-900'}
+          />
+        </div>
+      )}
+
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead className="bg-slate-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                  Date
-                </th>
+                <SortableHeader label="Date" column="created_at" sort={query.sort} onSort={handleSort} />
                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                   Product
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                  Type
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
-                  Quantity
+                  Location
                 </th>
+                <SortableHeader label="Type" column="type" sort={query.sort} onSort={handleSort} />
+                <SortableHeader label="Quantity" column="quantity" sort={query.sort} onSort={handleSort} />
+                {query.productId && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    Balance
+                  </th>
+                )}
                 <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
                   User
                 </th>
@@ -105,61 +560,253 @@ export default function StockTransactions() {
             <tbody className="bg-white divide-y divide-slate-200">
               {transactions.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="px-6 py-8 text-center text-slate-500">
-                    No transactions yet
+                  <td colSpan={columnCount} className="px-6 py-8 text-center text-slate-500">
+                    {hasFilters
+                      ? 'No transactions match these filters'
+                      : 'No transactions yet'}
                   </td>
                 </tr>
               ) : (
-                transactions.map((transaction) => (
-                  <tr key={transaction.id} className="hover:bg-slate-50 transition">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
-                      {new Date(transaction.created_at).toLocaleDateString()}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
-                      {transaction.products.name}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <TypeBadge type={transaction.type} />
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
-                      {transaction.type === 'IN' ? '+' : '-'}
-                      {transaction.quantity}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
-                      {transaction.profiles.name}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-slate-600">
-                      {transaction.notes || '-'}
-                    </td>
-                  </tr>
-                ))
+                transactions.map((transaction) => {
+                  const transfer = transaction.stock_transfers;
+
+                  if (transfer) {
+                    return (
+                      <tr key={transfer.id} className="hover:bg-slate-50 transition">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                          {new Date(transfer.dispatched_at).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                          {transaction.products.name}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                          {transfer.from_location.name} → {transfer.to_location.name}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <TransferBadge status={transfer.status} />
+                          {transfer.status === 'in_transit' && (
+                            <div className="flex gap-3 mt-2 text-xs">
+                              <button
+                                onClick={() => handleTransferAction(transfer.id, 'receive')}
+                                className="text-blue-600 hover:text-blue-800 font-medium transition"
+                              >
+                                Receive
+                              </button>
+                              <button
+                                onClick={() => handleTransferAction(transfer.id, 'cancel')}
+                                className="text-red-600 hover:text-red-800 font-medium transition"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                          {transfer.quantity}
+                        </td>
+                        {query.productId && <BalanceCell balance={balances.get(transaction.id)} />}
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                          {transaction.profiles.name}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-slate-600">
+                          {transfer.notes || '-'}
+                        </td>
+                      </tr>
+                    );
+                  }
+
+                  const reversed = transaction.reverses_transaction_id
+                    ? transactionsById.get(transaction.reverses_transaction_id)
+                    : undefined;
+
+                  return (
+                    <tr key={transaction.id} className="hover:bg-slate-50 transition">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {new Date(transaction.created_at).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                        {transaction.products.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {transaction.locations.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <TransactionTypeBadge type={transaction.type} />
+                        {transaction.reason && (
+                          <p className="text-xs text-slate-500 mt-1">
+                            {REASON_LABELS[transaction.reason]}
+                          </p>
+                        )}
+                        {transaction.voided_at && (
+                          <span className="inline-block mt-1 px-2 py-0.5 rounded bg-red-50 text-xs font-semibold text-red-700">
+                            Voided
+                          </span>
+                        )}
+                        {isAdmin && canVoid(transaction) && (
+                          <div className="mt-2 text-xs">
+                            <button
+                              onClick={() => setVoiding(transaction)}
+                              className="text-red-600 hover:text-red-800 font-medium transition"
+                            >
+                              Void
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        <span className={transaction.voided_at ? 'line-through text-slate-400' : ''}>
+                          {transaction.type === 'OUT' ? '-' : transaction.quantity > 0 && '+'}
+                          {transaction.quantity}
+                        </span>
+                        {transaction.unit_cost !== null && (
+                          <p className="text-xs text-slate-500">
+                            @ ${transaction.unit_cost.toFixed(2)}
+                          </p>
+                        )}
+                        {transaction.stock_transaction_lots.map((lot) => (
+                          <p key={lot.stock_lots.lot_number} className="text-xs text-slate-500">
+                            Lot {lot.stock_lots.lot_number} × {lot.quantity}
+                          </p>
+                        ))}
+                        {transaction.stock_transaction_serials.length > 0 && (
+                          <p className="text-xs text-slate-500 font-mono whitespace-normal">
+                            S/N{' '}
+                            {transaction.stock_transaction_serials
+                              .map((serial) => serial.serial_numbers.serial_number)
+                              .join(', ')}
+                          </p>
+                        )}
+                      </td>
+                      {query.productId && <BalanceCell balance={balances.get(transaction.id)} />}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                        {transaction.profiles.name}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-slate-600">
+                        {transaction.purchase_order_lines && (
+                          <span className="inline-block mr-2 px-2 py-0.5 rounded bg-slate-100 text-xs font-semibold text-slate-700">
+                            {transaction.purchase_order_lines.purchase_orders.po_number}
+                          </span>
+                        )}
+                        {transaction.sales_order_lines && (
+                          <span className="inline-block mr-2 px-2 py-0.5 rounded bg-slate-100 text-xs font-semibold text-slate-700">
+                            {transaction.sales_order_lines.sales_orders.order_number}
+                          </span>
+                        )}
+                        {transaction.notes ||
+                          (!transaction.purchase_order_lines && !transaction.sales_order_lines && '-')}
+                        {transaction.voided_at && (
+                          <p className="text-xs text-red-700 mt-1">
+                            Voided {new Date(transaction.voided_at).toLocaleDateString()}:{' '}
+                            {transaction.void_reason}
+                          </p>
+                        )}
+                        {transaction.reverses_transaction_id && (
+                          <p className="text-xs text-slate-500 mt-1">
+                            Reverses entry from{' '}
+                            {reversed
+                              ? new Date(reversed.created_at).toLocaleDateString()
+                              : 'an earlier date'}
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
               )}
             </tbody>
           </table>
         </div>
+        <Pagination
+          page={query.page}
+          pageSize={PAGE_SIZE}
+          total={total}
+          onPageChange={(next) => setParams({ page: next > 1 ? String(next) : null })}
+        />
       </div>
 
       {modalOpen && user && (
-        <StockModal products={products} userId={user.id} onClose={handleModalClose} />
+        <StockModal
+          locations={locations}
+          onCreateProduct={handleCreateProduct}
+          onClose={handleModalClose}
+        />
+      )}
+
+      {newProductCode !== null && (
+        <ProductModal
+          product={null}
+          categories={categories}
+          suppliers={suppliers}
+          initialBarcode={newProductCode}
+          onClose={handleProductModalClose}
+        />
+      )}
+
+      {voiding && <VoidTransactionModal transaction={voiding} onClose={handleModalClose} />}
+
+      {transferModalOpen && user && (
+        <TransferModal
+          locations={locations}
+          onClose={handleModalClose}
+        />
       )}
     </div>
   );
 }
 
-function TypeBadge({ type }: { type: 'IN' | 'OUT' }) {
-  if (type === 'IN') {
-    return (
-      <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-800">
-        <TrendingUp className="w-3 h-3" />
-        Stock In
-      </span>
-    );
-  }
+function TotalCard({ label, value, color }: { label: string; value: number; color: string }) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <p className="text-sm font-medium text-slate-600">{label}</p>
+      <p className={`text-2xl font-bold mt-1 ${color}`}>
+        {value > 0 && '+'}
+        {value}
+      </p>
+    </div>
+  );
+}
+
+function BalanceCell({ balance }: { balance: number | undefined }) {
+  return (
+    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+      {balance ?? '-'}
+    </td>
+  );
+}
+
+// Movements posted by transfers, orders, counts and opening balances are undone there instead
+function canVoid(transaction: StockTransactionWithDetails) {
+  return (
+    !transaction.voided_at &&
+    !transaction.reverses_transaction_id &&
+    !transaction.transfer_id &&
+    !transaction.purchase_order_line_id &&
+    !transaction.sales_order_line_id &&
+    !transaction.stock_count_line_id &&
+    transaction.reason !== 'opening_balance' &&
+    transaction.reason !== 'stock_count'
+  );
+}
+
+function TransferBadge({ status }: { status: StockTransferStatus }) {
+  const colors = {
+    in_transit: 'bg-amber-100 text-amber-800',
+    received: 'bg-blue-100 text-blue-800',
+    cancelled: 'bg-slate-100 text-slate-800',
+  };
+
+  const labels = {
+    in_transit: 'In Transit',
+    received: 'Transfer',
+    cancelled: 'Transfer Cancelled',
+  };
 
   return (
-    <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-800">
-      <TrendingDown className="w-3 h-3" />
-      Stock Out
+    <span
+      className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold ${colors[status]}`}
+    >
+      <ArrowLeftRight className="w-3 h-3" />
+      {labels[status]}
     </span>
   );
 }
@@ -10,11 +10,8 @@ export default function Users() {
   const { profile } = useAuth();
 
   useEffect(() => {
-    if (profile?.role !== 'admin') {
-      return;
-    }
     loadUsers();
-  }, [profile]);
+  }, []);
 
   const loadUsers = async () => {
     try {
@@ -64,17 +61,6 @@ export default function Users() {
     }
   };
 
-  if (profile?.role !== 'admin') {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <div className="text-center">
-          <p className="text-xl text-slate-600">Access Denied</p>
-          <p className="text-slate-500 mt-2">You must be an admin to view this page</p>
-        </div>
-      </div>
-    );
-  }
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { DollarSign, Package } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { InventoryValuation, ValuationMethod } from '../types/database';
+
+interface CategoryValuation {
+  key: string;
+  name: string;
+  products: number;
+  quantity: number;
+  value: number;
+}
+
+export default function Valuation() {
+  const [rows, setRows] = useState<InventoryValuation[]>([]);
+  const [method, setMethod] = useState<ValuationMethod>('fifo');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadValuation();
+  }, []);
+
+  const loadValuation = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('inventory_valuation')
+        .select('*')
+        .gt('quantity', 0)
+        .order('name');
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error loading valuation:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const valueOf = (row: InventoryValuation) =>
+    method === 'fifo' ? row.fifo_value : row.average_value;
+
+  const totalValue = rows.reduce((sum, row) => sum + valueOf(row), 0);
+  const totalUnits = rows.reduce((sum, row) => sum + row.quantity, 0);
+
+  const categories = Object.values(
+    rows.reduce<Record<string, CategoryValuation>>((groups, row) => {
+      const key = row.category_id ?? '';
+      const group = groups[key] ?? {
+        key,
+        name: row.category_name ?? 'Uncategorized',
+        products: 0,
+        quantity: 0,
+        value: 0,
+      };
+      group.products += 1;
+      group.quantity += row.quantity;
+      group.value += valueOf(row);
+      groups[key] = group;
+      return groups;
+    }, {})
+  ).sort((a, b) => b.value - a.value);
+
+  const products = [...rows].sort((a, b) => valueOf(b) - valueOf(a));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-slate-600">Loading valuation...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Inventory Valuation</h1>
+          <p className="text-slate-600 mt-1">What the stock on hand and in transit is worth</p>
+        </div>
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as ValuationMethod)}
+          className="px-4 py-2 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        >
+          <option value="fifo">FIFO</option>
+          <option value="average">Weighted Average</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-slate-600">Total Value</p>
+              <p className="text-3xl font-bold text-slate-900 mt-2">${totalValue.toFixed(2)}</p>
+            </div>
+            <div className="bg-green-50 p-3 rounded-lg">
+              <DollarSign className="w-8 h-8 text-green-600" />
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-slate-600">Units Valued</p>
+              <p className="text-3xl font-bold text-slate-900 mt-2">{totalUnits}</p>
+            </div>
+            <div className="bg-blue-50 p-3 rounded-lg">
+              <Package className="w-8 h-8 text-blue-600" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200">
+          <h2 className="text-xl font-semibold text-slate-900">By Category</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Products
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Units
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Value
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Share
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-200">
+              {categories.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-slate-500">
+                    No stock to value
+                  </td>
+                </tr>
+              ) : (
+                categories.map((category) => (
+                  <tr key={category.key} className="hover:bg-slate-50 transition">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                      {category.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {category.products}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {category.quantity}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                      ${category.value.toFixed(2)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {totalValue ? ((category.value / totalValue) * 100).toFixed(1) : '0.0'}%
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200">
+          <h2 className="text-xl font-semibold text-slate-900">By Product</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Product
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Units
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Unit Cost
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                  Value
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-200">
+              {products.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-slate-500">
+                    No stock to value
+                  </td>
+                </tr>
+              ) : (
+                products.map((row) => (
+                  <tr key={row.product_id} className="hover:bg-slate-50 transition">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                      {row.name}
+                      <p className="text-xs text-slate-500">{row.sku}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {row.category_name || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      {row.quantity}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
+                      ${(row.quantity ? valueOf(row) / row.quantity : row.average_cost).toFixed(2)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                      ${valueOf(row).toFixed(2)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { ComponentType, lazy, LazyExoticComponent } from 'react';
+import { Location } from 'react-router-dom';
+import { Profile } from './types/database';
+
+export interface AppRoute {
+  path: string;
+  page: LazyExoticComponent<ComponentType>;
+  // Roles allowed to open the page; any signed-in user when omitted
+  roles?: Profile['role'][];
+}
+
+// Each page is its own bundle, fetched the first time it is opened
+export const APP_ROUTES: AppRoute[] = [
+  { path: '/dashboard', page: lazy(() => import('./pages/Dashboard')) },
+  { path: '/products', page: lazy(() => import('./pages/Products')) },
+  { path: '/products/:id', page: lazy(() => import('./pages/ProductDetail')) },
+  { path: '/categories', page: lazy(() => import('./pages/Categories')) },
+  { path: '/locations', page: lazy(() => import('./pages/Locations')) },
+  { path: '/suppliers', page: lazy(() => import('./pages/Suppliers')) },
+  { path: '/purchase-orders', page: lazy(() => import('./pages/PurchaseOrders')) },
+  { path: '/sales-orders', page: lazy(() => import('./pages/SalesOrders')) },
+  { path: '/stock', page: lazy(() => import('./pages/StockTransactions')) },
+  { path: '/stock-counts', page: lazy(() => import('./pages/StockCounts')) },
+  { path: '/valuation', page: lazy(() => import('./pages/Valuation')) },
+  { path: '/lots', page: lazy(() => import('./pages/ExpiringLots')) },
+  { path: '/serials', page: lazy(() => import('./pages/SerialLookup')) },
+  { path: '/ledger-check', page: lazy(() => import('./pages/LedgerCheck')) },
+  { path: '/users', page: lazy(() => import('./pages/Users')), roles: ['admin'] },
+  { path: '/audit', page: lazy(() => import('./pages/AuditLog')), roles: ['admin'] },
+];
+
+// Sent to the login screen along with the page the user was trying to open
+export interface RedirectState {
+  from?: Location;
+}
+
+export function getRedirectPath(state: unknown): string {
+  const from = (state as RedirectState | null)?.from;
+  return from ? `${from.pathname}${from.search}` : '/dashboard';
+}
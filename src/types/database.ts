@@ -15,14 +15,50 @@ export interface Category {
   updated_at: string;
 }
 
+export interface Location {
+  id: string;
+  name: string;
+  description: string;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string;
+  email: string;
+  phone: string;
+  address: string;
+  lead_time_days: number;
+  payment_terms: string;
+  notes: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ProductStatus = 'out_of_stock' | 'low_stock' | 'in_stock' | 'overstock';
+
 export interface Product {
   id: string;
   name: string;
   sku: string;
+  barcode: string | null;
   category_id: string | null;
   price: number;
   quantity: number;
-  status: 'out_of_stock' | 'low_stock' | 'in_stock';
+  reserved_quantity: number;
+  available_quantity: number;
+  average_cost: number;
+  reorder_point: number;
+  reorder_quantity: number;
+  max_level: number | null;
+  track_lots: boolean;
+  track_serials: boolean;
+  status: ProductStatus;
   description: string;
   created_at: string;
   updated_at: string;
@@ -32,19 +68,329 @@ export interface ProductWithCategory extends Product {
   categories: Category | null;
 }
 
+export interface ProductStock {
+  product_id: string;
+  location_id: string;
+  quantity: number;
+  reserved: number;
+  updated_at: string;
+}
+
+export interface ProductStockWithLocation extends ProductStock {
+  locations: Location;
+}
+
+export interface ProductWithStock extends ProductWithCategory {
+  product_stock: ProductStockWithLocation[];
+}
+
+export interface StockLot {
+  id: string;
+  product_id: string;
+  location_id: string;
+  lot_number: string;
+  expiry_date: string | null;
+  quantity: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StockLotWithDetails extends StockLot {
+  products: Product;
+  locations: Location;
+}
+
+export interface ProductWithLots extends ProductWithStock {
+  stock_lots: StockLot[];
+}
+
+export type SerialNumberStatus = 'in_stock' | 'in_transit' | 'issued' | 'written_off';
+
+export interface SerialNumber {
+  id: string;
+  product_id: string;
+  serial_number: string;
+  location_id: string | null;
+  status: SerialNumberStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SerialNumberWithDetails extends SerialNumber {
+  products: Product;
+  locations: Location | null;
+  stock_transaction_serials: {
+    stock_transactions: StockTransaction & {
+      locations: Location;
+      profiles: Profile;
+      sales_order_lines: { sales_orders: Pick<SalesOrder, 'id' | 'order_number'> } | null;
+    };
+  }[];
+}
+
+export interface StockHold {
+  id: string;
+  product_id: string;
+  location_id: string;
+  quantity: number;
+  reason: string;
+  created_by: string;
+  created_at: string;
+  released_by: string | null;
+  released_at: string | null;
+}
+
+export interface StockHoldWithDetails extends StockHold {
+  locations: Location;
+}
+
+export interface ProductSupplier {
+  product_id: string;
+  supplier_id: string;
+  supplier_sku: string;
+  unit_cost: number;
+  min_order_quantity: number;
+  is_preferred: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProductSupplierWithSupplier extends ProductSupplier {
+  suppliers: Supplier;
+}
+
+export type StockTransactionType = 'IN' | 'OUT' | 'ADJUST';
+
+export type AdjustmentReason = 'damaged' | 'lost' | 'found' | 'correction' | 'expired';
+
+export type StockTransactionReason = AdjustmentReason | 'opening_balance' | 'stock_count';
+
 export interface StockTransaction {
   id: string;
   product_id: string;
+  location_id: string;
   user_id: string;
   quantity: number;
-  type: 'IN' | 'OUT';
+  type: StockTransactionType;
+  reason: StockTransactionReason | null;
   notes: string;
+  unit_cost: number | null;
+  transfer_id: string | null;
+  purchase_order_line_id: string | null;
+  sales_order_line_id: string | null;
+  stock_count_line_id: string | null;
+  reverses_transaction_id: string | null;
+  voided_at: string | null;
+  voided_by: string | null;
+  void_reason: string | null;
   created_at: string;
 }
 
+export type StockTransferStatus = 'in_transit' | 'received' | 'cancelled';
+
+export interface StockTransfer {
+  id: string;
+  product_id: string;
+  from_location_id: string;
+  to_location_id: string;
+  quantity: number;
+  status: StockTransferStatus;
+  notes: string;
+  dispatched_by: string;
+  dispatched_at: string;
+  received_by: string | null;
+  received_at: string | null;
+}
+
+export interface StockTransferWithLocations extends StockTransfer {
+  from_location: Location;
+  to_location: Location;
+}
+
+export interface StockTransactionWithLocation extends StockTransaction {
+  profiles: Pick<Profile, 'name'>;
+  locations: Pick<Location, 'name'>;
+}
+
 export interface StockTransactionWithDetails extends StockTransaction {
   products: Product;
   profiles: Profile;
+  locations: Location;
+  stock_transfers: StockTransferWithLocations | null;
+  purchase_order_lines: { purchase_orders: Pick<PurchaseOrder, 'id' | 'po_number'> } | null;
+  sales_order_lines: { sales_orders: Pick<SalesOrder, 'id' | 'order_number'> } | null;
+  stock_transaction_lots: {
+    quantity: number;
+    stock_lots: Pick<StockLot, 'lot_number' | 'expiry_date'>;
+  }[];
+  stock_transaction_serials: { serial_numbers: Pick<SerialNumber, 'serial_number'> }[];
+}
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'sent'
+  | 'partially_received'
+  | 'received'
+  | 'cancelled';
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  location_id: string | null;
+  status: PurchaseOrderStatus;
+  expected_date: string | null;
+  notes: string;
+  created_by: string;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrderLineWithProduct extends PurchaseOrderLine {
+  products: Product;
+}
+
+export interface PurchaseOrderWithDetails extends PurchaseOrder {
+  suppliers: Supplier;
+  locations: Location | null;
+  purchase_order_lines: PurchaseOrderLineWithProduct[];
+}
+
+export type SalesOrderStatus = 'draft' | 'confirmed' | 'shipped' | 'cancelled';
+
+export interface SalesOrder {
+  id: string;
+  order_number: string;
+  customer_name: string;
+  customer_email: string;
+  shipping_address: string;
+  location_id: string | null;
+  status: SalesOrderStatus;
+  notes: string;
+  created_by: string;
+  confirmed_at: string | null;
+  shipped_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SalesOrderLine {
+  id: string;
+  sales_order_id: string;
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+  quantity_allocated: number;
+}
+
+export interface SalesOrderLineWithProduct extends SalesOrderLine {
+  products: ProductWithLots;
+}
+
+export interface SalesOrderWithDetails extends SalesOrder {
+  locations: Location | null;
+  sales_order_lines: SalesOrderLineWithProduct[];
+}
+
+export type StockCountStatus = 'counting' | 'review' | 'approved' | 'cancelled';
+
+export interface StockCount {
+  id: string;
+  count_number: string;
+  location_id: string;
+  category_id: string | null;
+  blind: boolean;
+  status: StockCountStatus;
+  notes: string;
+  created_by: string;
+  submitted_at: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StockCountLine {
+  id: string;
+  stock_count_id: string;
+  product_id: string;
+  system_quantity: number;
+  counted_quantity: number | null;
+  counted_by: string | null;
+  counted_at: string | null;
+}
+
+export interface StockCountLineWithProduct extends StockCountLine {
+  products: Product;
+}
+
+export interface StockCountWithDetails extends StockCount {
+  locations: Location;
+  categories: Category | null;
+  stock_count_lines: StockCountLineWithProduct[];
+}
+
+export interface CostLayer {
+  id: string;
+  product_id: string;
+  transaction_id: string | null;
+  quantity_received: number;
+  quantity_remaining: number;
+  unit_cost: number;
+  received_at: string;
+}
+
+export interface StockLedgerDiscrepancy {
+  product_id: string;
+  name: string;
+  sku: string;
+  quantity: number;
+  ledger_quantity: number;
+  difference: number;
+}
+
+export type ValuationMethod = 'fifo' | 'average';
+
+export interface InventoryValuation {
+  product_id: string;
+  name: string;
+  sku: string;
+  category_id: string | null;
+  category_name: string | null;
+  average_cost: number;
+  quantity: number;
+  fifo_value: number;
+  average_value: number;
+}
+
+export type AuditTable = 'products' | 'categories' | 'profiles';
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditLogEntry {
+  id: string;
+  table_name: AuditTable;
+  record_id: string;
+  action: AuditAction;
+  actor_id: string | null;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  changed_fields: string[];
+  created_at: string;
+}
+
+export interface AuditLogEntryWithActor extends AuditLogEntry {
+  profiles: Pick<Profile, 'name'> | null;
 }
 
 export interface DashboardStats {
@@ -52,4 +398,8 @@ export interface DashboardStats {
   lowStockCount: number;
   totalCategories: number;
   outOfStockCount: number;
+  overstockCount: number;
+  totalUnits: number;
+  totalValue: number;
+  expiringLotsCount: number;
 }
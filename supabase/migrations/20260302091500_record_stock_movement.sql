@@ -0,0 +1,87 @@
+/*
+  # Atomic Stock Movements
+
+  ## Overview
+  Stock movements used to be recorded by the client in two steps: insert a `stock_transactions`
+  row, then write `products.quantity` computed from a possibly stale client-side value. Concurrent
+  movements lost stock, and a failure between the two calls left an orphan ledger row.
+
+  ## Functions
+  - `record_stock_movement(p_product_id, p_type, p_quantity, p_notes)`
+    Locks the product row, validates that an OUT movement does not exceed the quantity on hand,
+    writes the ledger row and updates `products.quantity` in a single transaction. Returns the new
+    balance.
+
+  ## Errors
+  - `IV001` insufficient stock. `DETAIL` holds `{"available": n, "requested": n}` as JSON.
+  - `42501` caller has no active profile
+  - `22023` invalid type or quantity
+  - `P0002` product not found
+
+  ## Security
+  - The function runs as SECURITY DEFINER and records `auth.uid()` as the acting user
+  - Direct inserts into `stock_transactions` are no longer allowed; all movements go through the RPC
+*/
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text DEFAULT ''
+)
+RETURNS integer AS $$
+DECLARE
+  v_current integer;
+  v_new integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only active users can record stock movements'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT quantity INTO v_current
+  FROM products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_type = 'OUT' AND v_current < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object('available', v_current, 'requested', p_quantity)::text;
+  END IF;
+
+  v_new := CASE WHEN p_type = 'IN' THEN v_current + p_quantity ELSE v_current - p_quantity END;
+
+  INSERT INTO stock_transactions (product_id, user_id, quantity, type, notes)
+  VALUES (p_product_id, auth.uid(), p_quantity, p_type, COALESCE(p_notes, ''));
+
+  UPDATE products SET quantity = v_new WHERE id = p_product_id;
+
+  RETURN v_new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_stock_movement(uuid, text, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_stock_movement(uuid, text, integer, text) TO authenticated;
+
+-- Movements are only recorded through record_stock_movement
+DROP POLICY IF EXISTS "Active staff can insert stock transactions" ON stock_transactions;
@@ -0,0 +1,35 @@
+/*
+  # Per-Product Reorder Points
+
+  ## Overview
+  The generated `products.status` column classified everything under 5 units as `low_stock`,
+  regardless of how fast an item moves. Each product now carries its own replenishment
+  thresholds and `status` is derived from them.
+
+  ## Modified Tables
+
+  ### `products`
+  - `reorder_point` (integer, stock level at or below which the product is low on stock, default 5)
+  - `reorder_quantity` (integer, suggested quantity to order when replenishing, default 0)
+  - `max_level` (integer, optional maximum stock level; above it the product is overstocked)
+  - `status` (text, computed: 'out_of_stock', 'low_stock', 'in_stock', 'overstock')
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS reorder_point integer NOT NULL DEFAULT 5 CHECK (reorder_point >= 0),
+  ADD COLUMN IF NOT EXISTS reorder_quantity integer NOT NULL DEFAULT 0 CHECK (reorder_quantity >= 0),
+  ADD COLUMN IF NOT EXISTS max_level integer CHECK (max_level IS NULL OR max_level >= reorder_point);
+
+-- Recreate the generated status column on top of the per-product thresholds
+DROP INDEX IF EXISTS idx_products_status;
+ALTER TABLE products DROP COLUMN IF EXISTS status;
+ALTER TABLE products ADD COLUMN status text GENERATED ALWAYS AS (
+  CASE
+    WHEN quantity = 0 THEN 'out_of_stock'
+    WHEN quantity <= reorder_point THEN 'low_stock'
+    WHEN max_level IS NOT NULL AND quantity > max_level THEN 'overstock'
+    ELSE 'in_stock'
+  END
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_products_status ON products(status);
@@ -0,0 +1,281 @@
+/*
+  # Multi-Location Stock
+
+  ## Overview
+  Stock was a single number per product. Products are now stocked per location (stockroom,
+  shop floor, ...) and `products.quantity` becomes the sum across all locations, kept in sync by
+  a trigger so existing screens keep working.
+
+  ## New Tables
+
+  ### `locations`
+  Physical places where stock is kept
+  - `id` (uuid, primary key)
+  - `name` (text, unique location name)
+  - `description` (text)
+  - `is_default` (boolean, location used when none is given; at most one)
+  - `is_active` (boolean, inactive locations cannot receive movements)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### `product_stock`
+  Quantity of a product held at a location
+  - `product_id` (uuid, references products)
+  - `location_id` (uuid, references locations)
+  - `quantity` (integer, never negative)
+  - `updated_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `stock_transactions`
+  - `location_id` (uuid, references locations, location the movement happened at)
+
+  ## Functions
+  - `sync_product_quantity()` keeps `products.quantity` equal to the sum of `product_stock`
+  - `seed_product_stock()` books the quantity of a newly created product at the default location
+  - `record_stock_movement(p_product_id, p_location_id, p_type, p_quantity, p_notes)` now moves
+    stock at a single location. A NULL location means the default location. Returns the new total
+    quantity of the product; `IV001` details report the quantity available at that location.
+
+  ## Security
+  - Locations: authenticated users can read, admins can manage
+  - Product stock: authenticated users can read, writes only happen through functions
+
+  ## Data
+  - A default "Main Stockroom" location is created and existing quantities and transactions are
+    assigned to it
+*/
+
+-- Create locations table
+CREATE TABLE IF NOT EXISTS locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  description text DEFAULT '',
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_locations_single_default ON locations(is_default) WHERE is_default;
+
+-- Create product_stock table
+CREATE TABLE IF NOT EXISTS product_stock (
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  location_id uuid NOT NULL REFERENCES locations(id) ON DELETE RESTRICT,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (product_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_stock_location ON product_stock(location_id);
+
+ALTER TABLE stock_transactions
+  ADD COLUMN IF NOT EXISTS location_id uuid REFERENCES locations(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_stock_transactions_location ON stock_transactions(location_id);
+
+DROP TRIGGER IF EXISTS update_locations_updated_at ON locations;
+CREATE TRIGGER update_locations_updated_at BEFORE UPDATE ON locations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_product_stock_updated_at ON product_stock;
+CREATE TRIGGER update_product_stock_updated_at BEFORE UPDATE ON product_stock
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Default location and backfill of existing stock
+INSERT INTO locations (name, description, is_default) VALUES
+  ('Main Stockroom', 'Default stock location', true)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO product_stock (product_id, location_id, quantity)
+SELECT products.id, locations.id, products.quantity
+FROM products
+CROSS JOIN locations
+WHERE locations.is_default
+ON CONFLICT (product_id, location_id) DO NOTHING;
+
+UPDATE stock_transactions
+SET location_id = (SELECT id FROM locations WHERE is_default)
+WHERE location_id IS NULL;
+
+ALTER TABLE stock_transactions ALTER COLUMN location_id SET NOT NULL;
+
+-- Keep products.quantity equal to the sum across locations
+CREATE OR REPLACE FUNCTION sync_product_quantity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  v_product_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+
+  UPDATE products
+  SET quantity = (
+    SELECT COALESCE(SUM(quantity), 0)
+    FROM product_stock
+    WHERE product_stock.product_id = v_product_id
+  )
+  WHERE id = v_product_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_product_quantity ON product_stock;
+CREATE TRIGGER sync_product_quantity
+  AFTER INSERT OR UPDATE OR DELETE ON product_stock
+  FOR EACH ROW EXECUTE FUNCTION sync_product_quantity();
+
+-- Book the initial quantity of new products at the default location
+CREATE OR REPLACE FUNCTION seed_product_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.quantity > 0 THEN
+    INSERT INTO product_stock (product_id, location_id, quantity)
+    SELECT NEW.id, locations.id, NEW.quantity
+    FROM locations
+    WHERE locations.is_default;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS seed_product_stock ON products;
+CREATE TRIGGER seed_product_stock
+  AFTER INSERT ON products
+  FOR EACH ROW EXECUTE FUNCTION seed_product_stock();
+
+-- Location-aware stock movements
+DROP FUNCTION IF EXISTS record_stock_movement(uuid, text, integer, text);
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text DEFAULT ''
+)
+RETURNS integer AS $$
+DECLARE
+  v_location_id uuid;
+  v_current integer;
+  v_total integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only active users can record stock movements'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the product first so concurrent movements at any location serialize on it
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity INTO v_current
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id
+  FOR UPDATE;
+
+  IF p_type = 'OUT' AND v_current < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object('available', v_current, 'requested', p_quantity)::text;
+  END IF;
+
+  INSERT INTO stock_transactions (product_id, location_id, user_id, quantity, type, notes)
+  VALUES (p_product_id, v_location_id, auth.uid(), p_quantity, p_type, COALESCE(p_notes, ''));
+
+  UPDATE product_stock
+  SET quantity = CASE WHEN p_type = 'IN' THEN v_current + p_quantity ELSE v_current - p_quantity END
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id;
+
+  SELECT quantity INTO v_total FROM products WHERE id = p_product_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_stock_movement(uuid, uuid, text, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_stock_movement(uuid, uuid, text, integer, text) TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_stock ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for locations
+CREATE POLICY "Anyone can view locations"
+  ON locations FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert locations"
+  ON locations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update locations"
+  ON locations FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete locations"
+  ON locations FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- RLS Policies for product_stock
+CREATE POLICY "Anyone can view product stock"
+  ON product_stock FOR SELECT
+  TO authenticated
+  USING (true);
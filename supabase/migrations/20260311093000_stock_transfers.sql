@@ -0,0 +1,284 @@
+/*
+  # Inter-Location Stock Transfers
+
+  ## Overview
+  Moving stock between locations used to take an OUT and an unrelated IN. A transfer now records
+  both legs against a shared `stock_transfers` row. Stock leaves the source location on dispatch
+  and arrives at the destination on receipt; in between the transfer is `in_transit`.
+
+  ## New Tables
+
+  ### `stock_transfers`
+  - `id` (uuid, primary key)
+  - `product_id` (uuid, references products)
+  - `from_location_id` (uuid, references locations)
+  - `to_location_id` (uuid, references locations)
+  - `quantity` (integer, units moved)
+  - `status` (text, 'in_transit', 'received' or 'cancelled')
+  - `notes` (text)
+  - `dispatched_by` (uuid, references auth.users)
+  - `dispatched_at` (timestamptz)
+  - `received_by` (uuid, references auth.users)
+  - `received_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `stock_transactions`
+  - `transfer_id` (uuid, references stock_transfers, set on both legs of a transfer)
+
+  ## Functions
+  - `assert_active_user()` raises `42501` unless the caller has an active profile
+  - `apply_stock_movement(...)` internal movement primitive shared by all stock RPCs; not
+    callable by clients
+  - `record_stock_movement(...)` now delegates to `apply_stock_movement`
+  - `dispatch_stock_transfer(p_product_id, p_from_location_id, p_to_location_id, p_quantity,
+    p_notes, p_receive)` posts the OUT leg and returns the transfer id. With `p_receive` the IN leg
+    is posted in the same transaction.
+  - `receive_stock_transfer(p_transfer_id)` posts the IN leg of an in-transit transfer
+  - `cancel_stock_transfer(p_transfer_id)` returns in-transit stock to the source location
+
+  ## Security
+  - Stock transfers: authenticated users can read, writes only happen through functions
+*/
+
+-- Create stock_transfers table
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  from_location_id uuid NOT NULL REFERENCES locations(id) ON DELETE RESTRICT,
+  to_location_id uuid NOT NULL REFERENCES locations(id) ON DELETE RESTRICT,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  status text NOT NULL DEFAULT 'in_transit' CHECK (status IN ('in_transit', 'received', 'cancelled')),
+  notes text DEFAULT '',
+  dispatched_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  dispatched_at timestamptz DEFAULT now(),
+  received_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  received_at timestamptz,
+  CHECK (from_location_id <> to_location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_product ON stock_transfers(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_status ON stock_transfers(status);
+
+ALTER TABLE stock_transactions
+  ADD COLUMN IF NOT EXISTS transfer_id uuid REFERENCES stock_transfers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_transactions_transfer ON stock_transactions(transfer_id);
+
+-- Function to check the caller has an active profile
+CREATE OR REPLACE FUNCTION assert_active_user()
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only active users can record stock movements'
+      USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal movement primitive: locks, validates, writes the ledger row and the location balance
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text,
+  p_transfer_id uuid DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_location_id uuid;
+  v_current integer;
+  v_total integer;
+BEGIN
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the product first so concurrent movements at any location serialize on it
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity INTO v_current
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id
+  FOR UPDATE;
+
+  IF p_type = 'OUT' AND v_current < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object('available', v_current, 'requested', p_quantity)::text;
+  END IF;
+
+  INSERT INTO stock_transactions (product_id, location_id, user_id, quantity, type, notes, transfer_id)
+  VALUES (p_product_id, v_location_id, auth.uid(), p_quantity, p_type, COALESCE(p_notes, ''), p_transfer_id);
+
+  UPDATE product_stock
+  SET quantity = CASE WHEN p_type = 'IN' THEN v_current + p_quantity ELSE v_current - p_quantity END
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id;
+
+  SELECT quantity INTO v_total FROM products WHERE id = p_product_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_stock_movement(uuid, uuid, text, integer, text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text DEFAULT ''
+)
+RETURNS integer AS $$
+BEGIN
+  PERFORM assert_active_user();
+  RETURN apply_stock_movement(p_product_id, p_location_id, p_type, p_quantity, p_notes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Transfers
+CREATE OR REPLACE FUNCTION dispatch_stock_transfer(
+  p_product_id uuid,
+  p_from_location_id uuid,
+  p_to_location_id uuid,
+  p_quantity integer,
+  p_notes text DEFAULT '',
+  p_receive boolean DEFAULT false
+)
+RETURNS uuid AS $$
+DECLARE
+  v_transfer_id uuid;
+BEGIN
+  PERFORM assert_active_user();
+
+  IF p_from_location_id IS NULL OR p_to_location_id IS NULL OR p_from_location_id = p_to_location_id THEN
+    RAISE EXCEPTION 'A transfer needs two different locations'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = p_to_location_id AND is_active) THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO stock_transfers (product_id, from_location_id, to_location_id, quantity, notes, dispatched_by)
+  VALUES (p_product_id, p_from_location_id, p_to_location_id, p_quantity, COALESCE(p_notes, ''), auth.uid())
+  RETURNING id INTO v_transfer_id;
+
+  PERFORM apply_stock_movement(p_product_id, p_from_location_id, 'OUT', p_quantity, p_notes, v_transfer_id);
+
+  IF p_receive THEN
+    PERFORM receive_stock_transfer(v_transfer_id);
+  END IF;
+
+  RETURN v_transfer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION receive_stock_transfer(p_transfer_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_transfer stock_transfers%ROWTYPE;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_transfer.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Transfer is already %', v_transfer.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM apply_stock_movement(
+    v_transfer.product_id, v_transfer.to_location_id, 'IN', v_transfer.quantity, v_transfer.notes, v_transfer.id
+  );
+
+  UPDATE stock_transfers
+  SET status = 'received', received_by = auth.uid(), received_at = now()
+  WHERE id = p_transfer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cancel_stock_transfer(p_transfer_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_transfer stock_transfers%ROWTYPE;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_transfer FROM stock_transfers WHERE id = p_transfer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_transfer.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Transfer is already %', v_transfer.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM apply_stock_movement(
+    v_transfer.product_id, v_transfer.from_location_id, 'IN', v_transfer.quantity,
+    'Transfer cancelled', v_transfer.id
+  );
+
+  UPDATE stock_transfers
+  SET status = 'cancelled', received_by = auth.uid(), received_at = now()
+  WHERE id = p_transfer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION dispatch_stock_transfer(uuid, uuid, uuid, integer, text, boolean) FROM PUBLIC;
+REVOKE ALL ON FUNCTION receive_stock_transfer(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION cancel_stock_transfer(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION dispatch_stock_transfer(uuid, uuid, uuid, integer, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION receive_stock_transfer(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_stock_transfer(uuid) TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for stock_transfers
+CREATE POLICY "Anyone can view stock transfers"
+  ON stock_transfers FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,161 @@
+/*
+  # Suppliers
+
+  ## Overview
+  Adds suppliers and links products to the suppliers they can be bought from, with the
+  supplier's own SKU, unit cost and minimum order quantity.
+
+  ## New Tables
+
+  ### `suppliers`
+  - `id` (uuid, primary key)
+  - `name` (text, unique supplier name)
+  - `contact_name` (text)
+  - `email` (text)
+  - `phone` (text)
+  - `address` (text)
+  - `lead_time_days` (integer, usual days between ordering and delivery)
+  - `payment_terms` (text, e.g. 'Net 30')
+  - `notes` (text)
+  - `is_active` (boolean)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### `product_suppliers`
+  Many-to-many link between products and suppliers
+  - `product_id` (uuid, references products)
+  - `supplier_id` (uuid, references suppliers)
+  - `supplier_sku` (text, the supplier's code for the product)
+  - `unit_cost` (decimal, purchase price per unit)
+  - `min_order_quantity` (integer, minimum quantity per order)
+  - `is_preferred` (boolean, default supplier for the product; at most one per product)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Security
+  - Suppliers: authenticated users can read, admins can manage
+  - Product suppliers: authenticated users can read, active staff and admins can manage
+*/
+
+-- Create suppliers table
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  contact_name text DEFAULT '',
+  email text DEFAULT '',
+  phone text DEFAULT '',
+  address text DEFAULT '',
+  lead_time_days integer NOT NULL DEFAULT 0 CHECK (lead_time_days >= 0),
+  payment_terms text DEFAULT '',
+  notes text DEFAULT '',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create product_suppliers table
+CREATE TABLE IF NOT EXISTS product_suppliers (
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  supplier_id uuid NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  supplier_sku text DEFAULT '',
+  unit_cost decimal(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  min_order_quantity integer NOT NULL DEFAULT 1 CHECK (min_order_quantity > 0),
+  is_preferred boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (product_id, supplier_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_suppliers_supplier ON product_suppliers(supplier_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_suppliers_single_preferred
+  ON product_suppliers(product_id) WHERE is_preferred;
+
+DROP TRIGGER IF EXISTS update_suppliers_updated_at ON suppliers;
+CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON suppliers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_product_suppliers_updated_at ON product_suppliers;
+CREATE TRIGGER update_product_suppliers_updated_at BEFORE UPDATE ON product_suppliers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_suppliers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for suppliers
+CREATE POLICY "Anyone can view suppliers"
+  ON suppliers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert suppliers"
+  ON suppliers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update suppliers"
+  ON suppliers FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete suppliers"
+  ON suppliers FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- RLS Policies for product_suppliers
+CREATE POLICY "Anyone can view product suppliers"
+  ON product_suppliers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff and admins can insert product suppliers"
+  ON product_suppliers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  );
+
+CREATE POLICY "Staff and admins can update product suppliers"
+  ON product_suppliers FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  );
+
+CREATE POLICY "Staff and admins can delete product suppliers"
+  ON product_suppliers FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  );
@@ -0,0 +1,385 @@
+/*
+  # Purchase Orders
+
+  ## Overview
+  Purchase orders are raised against a supplier, move through
+  draft → sent → partially_received → received (or cancelled), and are received line by line.
+  Every receipt posts an IN movement that references the purchase order line it arrived on.
+
+  ## New Tables
+
+  ### `purchase_orders`
+  - `id` (uuid, primary key)
+  - `po_number` (text, unique, generated as PO-00001, PO-00002, ...)
+  - `supplier_id` (uuid, references suppliers)
+  - `location_id` (uuid, references locations, where the goods are expected)
+  - `status` (text, 'draft', 'sent', 'partially_received', 'received' or 'cancelled')
+  - `expected_date` (date)
+  - `notes` (text)
+  - `created_by` (uuid, references auth.users)
+  - `sent_at` (timestamptz)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### `purchase_order_lines`
+  - `id` (uuid, primary key)
+  - `purchase_order_id` (uuid, references purchase_orders)
+  - `product_id` (uuid, references products)
+  - `quantity_ordered` (integer)
+  - `quantity_received` (integer, maintained by receipts)
+  - `unit_cost` (decimal)
+
+  ## Modified Tables
+
+  ### `stock_transactions`
+  - `purchase_order_line_id` (uuid, references purchase_order_lines, set on receipts)
+
+  ## Functions
+  - `apply_stock_movement(...)` now returns the id of the ledger row it wrote, so callers can
+    attach their own references to it
+  - `set_purchase_order_status(p_purchase_order_id, p_status)` sends or cancels an order
+  - `receive_purchase_order(p_purchase_order_id, p_location_id, p_lines)` receives quantities
+    given as `[{"line_id": uuid, "quantity": n}]` in one transaction and updates the order status
+
+  ## Security
+  - Authenticated users can read purchase orders and lines
+  - Active staff and admins can create orders and edit them while they are drafts
+  - Status changes and receipts only happen through functions
+*/
+
+CREATE SEQUENCE IF NOT EXISTS purchase_order_number_seq;
+
+-- Create purchase_orders table
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number text UNIQUE NOT NULL DEFAULT 'PO-' || lpad(nextval('purchase_order_number_seq')::text, 5, '0'),
+  supplier_id uuid NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  location_id uuid REFERENCES locations(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  expected_date date,
+  notes text DEFAULT '',
+  created_by uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create purchase_order_lines table
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity_ordered integer NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received integer NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost decimal(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  CHECK (quantity_received <= quantity_ordered)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order ON purchase_order_lines(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_product ON purchase_order_lines(product_id);
+
+ALTER TABLE stock_transactions
+  ADD COLUMN IF NOT EXISTS purchase_order_line_id uuid REFERENCES purchase_order_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_transactions_purchase_order_line ON stock_transactions(purchase_order_line_id);
+
+DROP TRIGGER IF EXISTS update_purchase_orders_updated_at ON purchase_orders;
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- apply_stock_movement returns the ledger row id instead of the product total
+DROP FUNCTION IF EXISTS apply_stock_movement(uuid, uuid, text, integer, text, uuid);
+
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text,
+  p_transfer_id uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_location_id uuid;
+  v_current integer;
+  v_transaction_id uuid;
+BEGIN
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the product first so concurrent movements at any location serialize on it
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity INTO v_current
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id
+  FOR UPDATE;
+
+  IF p_type = 'OUT' AND v_current < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object('available', v_current, 'requested', p_quantity)::text;
+  END IF;
+
+  INSERT INTO stock_transactions (product_id, location_id, user_id, quantity, type, notes, transfer_id)
+  VALUES (p_product_id, v_location_id, auth.uid(), p_quantity, p_type, COALESCE(p_notes, ''), p_transfer_id)
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE product_stock
+  SET quantity = CASE WHEN p_type = 'IN' THEN v_current + p_quantity ELSE v_current - p_quantity END
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_stock_movement(uuid, uuid, text, integer, text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text DEFAULT ''
+)
+RETURNS integer AS $$
+DECLARE
+  v_total integer;
+BEGIN
+  PERFORM assert_active_user();
+  PERFORM apply_stock_movement(p_product_id, p_location_id, p_type, p_quantity, p_notes);
+
+  SELECT quantity INTO v_total FROM products WHERE id = p_product_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Purchase order status transitions
+CREATE OR REPLACE FUNCTION set_purchase_order_status(
+  p_purchase_order_id uuid,
+  p_status text
+)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT status INTO v_status FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_status = 'sent' AND v_status = 'draft' THEN
+    IF NOT EXISTS (SELECT 1 FROM purchase_order_lines WHERE purchase_order_id = p_purchase_order_id) THEN
+      RAISE EXCEPTION 'A purchase order needs at least one line before it is sent'
+        USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE purchase_orders SET status = 'sent', sent_at = now() WHERE id = p_purchase_order_id;
+  ELSIF p_status = 'cancelled' AND v_status IN ('draft', 'sent', 'partially_received') THEN
+    UPDATE purchase_orders SET status = 'cancelled' WHERE id = p_purchase_order_id;
+  ELSE
+    RAISE EXCEPTION 'Cannot change a % purchase order to %', v_status, p_status
+      USING ERRCODE = '22023';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Receive goods against purchase order lines
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_location_id uuid,
+  p_lines jsonb
+)
+RETURNS text AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+  v_receipt jsonb;
+  v_line purchase_order_lines%ROWTYPE;
+  v_quantity integer;
+  v_transaction_id uuid;
+  v_status text;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Cannot receive against a % purchase order', v_order.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_receipt IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb))
+  LOOP
+    v_quantity := (v_receipt->>'quantity')::integer;
+    CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = (v_receipt->>'line_id')::uuid
+    AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order line not found'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity_ordered THEN
+      RAISE EXCEPTION 'Cannot receive % units, only % outstanding',
+        v_quantity, v_line.quantity_ordered - v_line.quantity_received
+        USING ERRCODE = '22023';
+    END IF;
+
+    v_transaction_id := apply_stock_movement(
+      v_line.product_id, COALESCE(p_location_id, v_order.location_id), 'IN', v_quantity, ''
+    );
+
+    UPDATE stock_transactions SET purchase_order_line_id = v_line.id WHERE id = v_transaction_id;
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + v_quantity
+    WHERE id = v_line.id;
+  END LOOP;
+
+  v_status := CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = p_purchase_order_id
+      AND quantity_received < quantity_ordered
+    ) THEN 'received'
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = p_purchase_order_id
+      AND quantity_received > 0
+    ) THEN 'partially_received'
+    ELSE v_order.status
+  END;
+
+  UPDATE purchase_orders SET status = v_status WHERE id = p_purchase_order_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION set_purchase_order_status(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION receive_purchase_order(uuid, uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_purchase_order_status(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION receive_purchase_order(uuid, uuid, jsonb) TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for purchase_orders
+CREATE POLICY "Anyone can view purchase orders"
+  ON purchase_orders FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff and admins can create draft purchase orders"
+  ON purchase_orders FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  );
+
+CREATE POLICY "Staff and admins can edit draft purchase orders"
+  ON purchase_orders FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  )
+  WITH CHECK (status = 'draft');
+
+CREATE POLICY "Staff and admins can delete draft purchase orders"
+  ON purchase_orders FOR DELETE
+  TO authenticated
+  USING (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  );
+
+-- RLS Policies for purchase_order_lines
+CREATE POLICY "Anyone can view purchase order lines"
+  ON purchase_order_lines FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff and admins can manage lines of draft purchase orders"
+  ON purchase_order_lines FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM purchase_orders
+      WHERE purchase_orders.id = purchase_order_lines.purchase_order_id
+      AND purchase_orders.status = 'draft'
+    )
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  )
+  WITH CHECK (
+    quantity_received = 0
+    AND EXISTS (
+      SELECT 1 FROM purchase_orders
+      WHERE purchase_orders.id = purchase_order_lines.purchase_order_id
+      AND purchase_orders.status = 'draft'
+    )
+  );
@@ -0,0 +1,318 @@
+/*
+  # Sales Orders
+
+  ## Overview
+  Customer orders with line items. Confirming an order allocates stock at its ship-from location,
+  and shipping posts the OUT movements for every line at once, each referencing its order line.
+  Orders move through draft → confirmed → shipped (or cancelled).
+
+  ## New Tables
+
+  ### `sales_orders`
+  - `id` (uuid, primary key)
+  - `order_number` (text, unique, generated as SO-00001, SO-00002, ...)
+  - `customer_name` (text)
+  - `customer_email` (text)
+  - `shipping_address` (text)
+  - `location_id` (uuid, references locations, where the goods are picked from)
+  - `status` (text, 'draft', 'confirmed', 'shipped' or 'cancelled')
+  - `notes` (text)
+  - `created_by` (uuid, references auth.users)
+  - `confirmed_at` (timestamptz)
+  - `shipped_at` (timestamptz)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### `sales_order_lines`
+  - `id` (uuid, primary key)
+  - `sales_order_id` (uuid, references sales_orders)
+  - `product_id` (uuid, references products)
+  - `quantity` (integer)
+  - `unit_price` (decimal)
+  - `quantity_allocated` (integer, stock held for the line while the order is confirmed)
+
+  ## Modified Tables
+
+  ### `stock_transactions`
+  - `sales_order_line_id` (uuid, references sales_order_lines, set on shipments)
+
+  ## Functions
+  - `confirm_sales_order(p_sales_order_id)` checks that the ship-from location holds enough stock
+    not already allocated to other confirmed orders, then allocates it. Raises `IV001` otherwise.
+  - `ship_sales_order(p_sales_order_id)` posts an OUT movement for every line and releases the
+    allocation
+  - `cancel_sales_order(p_sales_order_id)` cancels a draft or confirmed order and releases its
+    allocation
+
+  ## Security
+  - Authenticated users can read sales orders and lines
+  - Active staff and admins can create orders and edit them while they are drafts
+  - Status changes only happen through functions
+*/
+
+CREATE SEQUENCE IF NOT EXISTS sales_order_number_seq;
+
+-- Create sales_orders table
+CREATE TABLE IF NOT EXISTS sales_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_number text UNIQUE NOT NULL DEFAULT 'SO-' || lpad(nextval('sales_order_number_seq')::text, 5, '0'),
+  customer_name text NOT NULL,
+  customer_email text DEFAULT '',
+  shipping_address text DEFAULT '',
+  location_id uuid REFERENCES locations(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'confirmed', 'shipped', 'cancelled')),
+  notes text DEFAULT '',
+  created_by uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  confirmed_at timestamptz,
+  shipped_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create sales_order_lines table
+CREATE TABLE IF NOT EXISTS sales_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sales_order_id uuid NOT NULL REFERENCES sales_orders(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price decimal(10,2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  quantity_allocated integer NOT NULL DEFAULT 0 CHECK (quantity_allocated >= 0),
+  CHECK (quantity_allocated <= quantity)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_orders_status ON sales_orders(status);
+CREATE INDEX IF NOT EXISTS idx_sales_order_lines_order ON sales_order_lines(sales_order_id);
+CREATE INDEX IF NOT EXISTS idx_sales_order_lines_product ON sales_order_lines(product_id);
+
+ALTER TABLE stock_transactions
+  ADD COLUMN IF NOT EXISTS sales_order_line_id uuid REFERENCES sales_order_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_transactions_sales_order_line ON stock_transactions(sales_order_line_id);
+
+DROP TRIGGER IF EXISTS update_sales_orders_updated_at ON sales_orders;
+CREATE TRIGGER update_sales_orders_updated_at BEFORE UPDATE ON sales_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION confirm_sales_order(p_sales_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_order sales_orders%ROWTYPE;
+  v_location_id uuid;
+  v_line sales_order_lines%ROWTYPE;
+  v_on_hand integer;
+  v_allocated integer;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_order FROM sales_orders WHERE id = p_sales_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Cannot confirm a % sales order', v_order.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM sales_order_lines WHERE sales_order_id = p_sales_order_id) THEN
+    RAISE EXCEPTION 'A sales order needs at least one line before it is confirmed'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = v_order.location_id OR (v_order.location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM sales_order_lines
+    WHERE sales_order_id = p_sales_order_id
+    ORDER BY product_id
+  LOOP
+    -- Serialize allocations of the same product
+    PERFORM 1 FROM products WHERE id = v_line.product_id FOR UPDATE;
+
+    SELECT COALESCE(quantity, 0) INTO v_on_hand
+    FROM product_stock
+    WHERE product_id = v_line.product_id
+    AND location_id = v_location_id;
+
+    SELECT COALESCE(SUM(sales_order_lines.quantity_allocated), 0) INTO v_allocated
+    FROM sales_order_lines
+    JOIN sales_orders ON sales_orders.id = sales_order_lines.sales_order_id
+    WHERE sales_order_lines.product_id = v_line.product_id
+    AND sales_orders.status = 'confirmed'
+    AND sales_orders.location_id = v_location_id;
+
+    IF COALESCE(v_on_hand, 0) - v_allocated < v_line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock quantity'
+        USING ERRCODE = 'IV001',
+              DETAIL = json_build_object(
+                'available', GREATEST(COALESCE(v_on_hand, 0) - v_allocated, 0),
+                'requested', v_line.quantity
+              )::text;
+    END IF;
+
+    UPDATE sales_order_lines SET quantity_allocated = quantity WHERE id = v_line.id;
+  END LOOP;
+
+  UPDATE sales_orders
+  SET status = 'confirmed', location_id = v_location_id, confirmed_at = now()
+  WHERE id = p_sales_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION ship_sales_order(p_sales_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_order sales_orders%ROWTYPE;
+  v_line sales_order_lines%ROWTYPE;
+  v_transaction_id uuid;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_order FROM sales_orders WHERE id = p_sales_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Cannot ship a % sales order', v_order.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM sales_order_lines
+    WHERE sales_order_id = p_sales_order_id
+    ORDER BY product_id
+  LOOP
+    v_transaction_id := apply_stock_movement(
+      v_line.product_id, v_order.location_id, 'OUT', v_line.quantity, ''
+    );
+
+    UPDATE stock_transactions SET sales_order_line_id = v_line.id WHERE id = v_transaction_id;
+  END LOOP;
+
+  UPDATE sales_order_lines SET quantity_allocated = 0 WHERE sales_order_id = p_sales_order_id;
+
+  UPDATE sales_orders SET status = 'shipped', shipped_at = now() WHERE id = p_sales_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cancel_sales_order(p_sales_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT status INTO v_status FROM sales_orders WHERE id = p_sales_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_status NOT IN ('draft', 'confirmed') THEN
+    RAISE EXCEPTION 'Cannot cancel a % sales order', v_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE sales_order_lines SET quantity_allocated = 0 WHERE sales_order_id = p_sales_order_id;
+
+  UPDATE sales_orders SET status = 'cancelled' WHERE id = p_sales_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION confirm_sales_order(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION ship_sales_order(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION cancel_sales_order(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION confirm_sales_order(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION ship_sales_order(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_sales_order(uuid) TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE sales_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales_order_lines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for sales_orders
+CREATE POLICY "Anyone can view sales orders"
+  ON sales_orders FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff and admins can create draft sales orders"
+  ON sales_orders FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  );
+
+CREATE POLICY "Staff and admins can edit draft sales orders"
+  ON sales_orders FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  )
+  WITH CHECK (status = 'draft');
+
+CREATE POLICY "Staff and admins can delete draft sales orders"
+  ON sales_orders FOR DELETE
+  TO authenticated
+  USING (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  );
+
+-- RLS Policies for sales_order_lines
+CREATE POLICY "Anyone can view sales order lines"
+  ON sales_order_lines FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff and admins can manage lines of draft sales orders"
+  ON sales_order_lines FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM sales_orders
+      WHERE sales_orders.id = sales_order_lines.sales_order_id
+      AND sales_orders.status = 'draft'
+    )
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.is_active = true
+    )
+  )
+  WITH CHECK (
+    quantity_allocated = 0
+    AND EXISTS (
+      SELECT 1 FROM sales_orders
+      WHERE sales_orders.id = sales_order_lines.sales_order_id
+      AND sales_orders.status = 'draft'
+    )
+  );
@@ -0,0 +1,458 @@
+/*
+  # Reserved and Available Stock
+
+  ## Overview
+  On-hand quantity overstated what could be promised once orders started allocating stock.
+  Stock is now reserved per location, either by confirmed sales orders or by manual holds, and
+  every OUT movement and new reservation is validated against the available quantity
+  (on hand − reserved) instead of the raw on-hand figure.
+
+  ## New Tables
+
+  ### `stock_holds`
+  Manual reservations, e.g. goods set aside for a customer or held for inspection
+  - `id` (uuid, primary key)
+  - `product_id` (uuid, references products)
+  - `location_id` (uuid, references locations)
+  - `quantity` (integer, units held)
+  - `reason` (text)
+  - `created_by` (uuid, references auth.users)
+  - `created_at` (timestamptz)
+  - `released_by` (uuid, references auth.users)
+  - `released_at` (timestamptz, NULL while the hold is active)
+
+  ## Modified Tables
+
+  ### `product_stock`
+  - `reserved` (integer, units at the location reserved by confirmed orders and active holds)
+
+  ### `products`
+  - `reserved_quantity` (integer, sum of `product_stock.reserved`, kept in sync by trigger)
+  - `available_quantity` (integer, computed: on hand minus reserved, never below zero)
+
+  ## Functions
+  - `sync_product_quantity()` now also maintains `products.reserved_quantity`
+  - `reserve_stock(p_product_id, p_location_id, p_quantity)` internal: reserves available stock
+    at a location or raises `IV001`
+  - `release_reserved_stock(p_product_id, p_location_id, p_quantity)` internal: releases it again
+  - `apply_stock_movement(...)` checks OUT movements against available stock
+  - `confirm_sales_order`, `ship_sales_order` and `cancel_sales_order` reserve and release through
+    the functions above
+  - `place_stock_hold(p_product_id, p_location_id, p_quantity, p_reason)` reserves stock manually
+    and returns the hold id
+  - `release_stock_hold(p_hold_id)` releases an active hold
+
+  ## Security
+  - Authenticated users can read holds; holds are only created and released through functions
+
+  ## Data
+  - Reservations are backfilled from the allocations of confirmed sales orders
+*/
+
+-- Create stock_holds table
+CREATE TABLE IF NOT EXISTS stock_holds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  location_id uuid NOT NULL REFERENCES locations(id) ON DELETE RESTRICT,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  reason text DEFAULT '',
+  created_by uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  released_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  released_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_holds_product ON stock_holds(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_holds_active ON stock_holds(product_id) WHERE released_at IS NULL;
+
+ALTER TABLE product_stock
+  ADD COLUMN IF NOT EXISTS reserved integer NOT NULL DEFAULT 0 CHECK (reserved >= 0);
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS reserved_quantity integer NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS available_quantity integer GENERATED ALWAYS AS (
+  GREATEST(quantity - reserved_quantity, 0)
+) STORED;
+
+-- Keep products.quantity and products.reserved_quantity equal to the sums across locations
+CREATE OR REPLACE FUNCTION sync_product_quantity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  v_product_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+
+  UPDATE products
+  SET (quantity, reserved_quantity) = (
+    SELECT COALESCE(SUM(quantity), 0), COALESCE(SUM(reserved), 0)
+    FROM product_stock
+    WHERE product_stock.product_id = v_product_id
+  )
+  WHERE id = v_product_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill reservations held by confirmed sales orders
+UPDATE product_stock
+SET reserved = allocations.quantity
+FROM (
+  SELECT sales_order_lines.product_id, sales_orders.location_id, SUM(sales_order_lines.quantity_allocated) AS quantity
+  FROM sales_order_lines
+  JOIN sales_orders ON sales_orders.id = sales_order_lines.sales_order_id
+  WHERE sales_orders.status = 'confirmed'
+  GROUP BY sales_order_lines.product_id, sales_orders.location_id
+) AS allocations
+WHERE product_stock.product_id = allocations.product_id
+AND product_stock.location_id = allocations.location_id;
+
+-- Internal: reserve available stock at a resolved location
+CREATE OR REPLACE FUNCTION reserve_stock(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_quantity integer
+)
+RETURNS void AS $$
+DECLARE
+  v_current integer;
+  v_reserved integer;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Same lock order as apply_stock_movement
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, p_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity, reserved INTO v_current, v_reserved
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = p_location_id
+  FOR UPDATE;
+
+  IF v_current - v_reserved < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object(
+              'available', GREATEST(v_current - v_reserved, 0),
+              'requested', p_quantity
+            )::text;
+  END IF;
+
+  UPDATE product_stock
+  SET reserved = v_reserved + p_quantity
+  WHERE product_id = p_product_id
+  AND location_id = p_location_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Internal: release a reservation made with reserve_stock
+CREATE OR REPLACE FUNCTION release_reserved_stock(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_quantity integer
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE product_stock
+  SET reserved = GREATEST(reserved - p_quantity, 0)
+  WHERE product_id = p_product_id
+  AND location_id = p_location_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION reserve_stock(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION release_reserved_stock(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- OUT movements may only take stock that is not reserved
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text,
+  p_transfer_id uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_location_id uuid;
+  v_current integer;
+  v_reserved integer;
+  v_transaction_id uuid;
+BEGIN
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the product first so concurrent movements at any location serialize on it
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity, reserved INTO v_current, v_reserved
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id
+  FOR UPDATE;
+
+  IF p_type = 'OUT' AND v_current - v_reserved < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object(
+              'available', GREATEST(v_current - v_reserved, 0),
+              'requested', p_quantity
+            )::text;
+  END IF;
+
+  INSERT INTO stock_transactions (product_id, location_id, user_id, quantity, type, notes, transfer_id)
+  VALUES (p_product_id, v_location_id, auth.uid(), p_quantity, p_type, COALESCE(p_notes, ''), p_transfer_id)
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE product_stock
+  SET quantity = CASE WHEN p_type = 'IN' THEN v_current + p_quantity ELSE v_current - p_quantity END
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sales orders reserve on confirmation and release on shipment or cancellation
+CREATE OR REPLACE FUNCTION confirm_sales_order(p_sales_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_order sales_orders%ROWTYPE;
+  v_location_id uuid;
+  v_line sales_order_lines%ROWTYPE;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_order FROM sales_orders WHERE id = p_sales_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status <> 'draft' THEN
+    RAISE EXCEPTION 'Cannot confirm a % sales order', v_order.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM sales_order_lines WHERE sales_order_id = p_sales_order_id) THEN
+    RAISE EXCEPTION 'A sales order needs at least one line before it is confirmed'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = v_order.location_id OR (v_order.location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM sales_order_lines
+    WHERE sales_order_id = p_sales_order_id
+    ORDER BY product_id
+  LOOP
+    PERFORM reserve_stock(v_line.product_id, v_location_id, v_line.quantity);
+
+    UPDATE sales_order_lines SET quantity_allocated = quantity WHERE id = v_line.id;
+  END LOOP;
+
+  UPDATE sales_orders
+  SET status = 'confirmed', location_id = v_location_id, confirmed_at = now()
+  WHERE id = p_sales_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION ship_sales_order(p_sales_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_order sales_orders%ROWTYPE;
+  v_line sales_order_lines%ROWTYPE;
+  v_transaction_id uuid;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_order FROM sales_orders WHERE id = p_sales_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Cannot ship a % sales order', v_order.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM sales_order_lines
+    WHERE sales_order_id = p_sales_order_id
+    ORDER BY product_id
+  LOOP
+    -- The reserved units are the ones being shipped
+    PERFORM release_reserved_stock(v_line.product_id, v_order.location_id, v_line.quantity_allocated);
+
+    v_transaction_id := apply_stock_movement(
+      v_line.product_id, v_order.location_id, 'OUT', v_line.quantity, ''
+    );
+
+    UPDATE stock_transactions SET sales_order_line_id = v_line.id WHERE id = v_transaction_id;
+  END LOOP;
+
+  UPDATE sales_order_lines SET quantity_allocated = 0 WHERE sales_order_id = p_sales_order_id;
+
+  UPDATE sales_orders SET status = 'shipped', shipped_at = now() WHERE id = p_sales_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cancel_sales_order(p_sales_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_order sales_orders%ROWTYPE;
+  v_line sales_order_lines%ROWTYPE;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_order FROM sales_orders WHERE id = p_sales_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status NOT IN ('draft', 'confirmed') THEN
+    RAISE EXCEPTION 'Cannot cancel a % sales order', v_order.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM sales_order_lines
+    WHERE sales_order_id = p_sales_order_id
+    AND quantity_allocated > 0
+    ORDER BY product_id
+  LOOP
+    PERFORM release_reserved_stock(v_line.product_id, v_order.location_id, v_line.quantity_allocated);
+  END LOOP;
+
+  UPDATE sales_order_lines SET quantity_allocated = 0 WHERE sales_order_id = p_sales_order_id;
+
+  UPDATE sales_orders SET status = 'cancelled' WHERE id = p_sales_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Manual holds
+CREATE OR REPLACE FUNCTION place_stock_hold(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_quantity integer,
+  p_reason text DEFAULT ''
+)
+RETURNS uuid AS $$
+DECLARE
+  v_location_id uuid;
+  v_hold_id uuid;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM reserve_stock(p_product_id, v_location_id, p_quantity);
+
+  INSERT INTO stock_holds (product_id, location_id, quantity, reason)
+  VALUES (p_product_id, v_location_id, p_quantity, COALESCE(p_reason, ''))
+  RETURNING id INTO v_hold_id;
+
+  RETURN v_hold_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION release_stock_hold(p_hold_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_hold stock_holds%ROWTYPE;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_hold FROM stock_holds WHERE id = p_hold_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock hold not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_hold.released_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Stock hold has already been released'
+      USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM release_reserved_stock(v_hold.product_id, v_hold.location_id, v_hold.quantity);
+
+  UPDATE stock_holds
+  SET released_at = now(), released_by = auth.uid()
+  WHERE id = p_hold_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION place_stock_hold(uuid, uuid, integer, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION release_stock_hold(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION place_stock_hold(uuid, uuid, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_stock_hold(uuid) TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE stock_holds ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for stock_holds
+CREATE POLICY "Anyone can view stock holds"
+  ON stock_holds FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,397 @@
+/*
+  # Inventory Valuation
+
+  ## Overview
+  `products.price` is a selling price, so there was no way to tell what the stock on hand is
+  worth. IN movements now carry a unit cost and every receipt opens a cost layer. OUT movements
+  consume layers oldest first, so the remaining layers value stock under FIFO, while
+  `products.average_cost` is maintained as a moving weighted average for the alternative method.
+  Transfer legs move stock between locations without changing its cost.
+
+  ## New Tables
+
+  ### `cost_layers`
+  One row per costed receipt of a product
+  - `id` (uuid, primary key)
+  - `product_id` (uuid, references products)
+  - `transaction_id` (uuid, references stock_transactions, NULL for opening layers)
+  - `quantity_received` (integer)
+  - `quantity_remaining` (integer, reduced as stock is issued)
+  - `unit_cost` (decimal)
+  - `received_at` (timestamptz, FIFO order)
+
+  ## Modified Tables
+
+  ### `stock_transactions`
+  - `unit_cost` (decimal, cost per unit of IN movements)
+
+  ### `products`
+  - `average_cost` (decimal, moving weighted-average unit cost)
+
+  ## Views
+  - `inventory_valuation` one row per product with its category, units valued (including stock
+    in transit), FIFO value and weighted-average value
+
+  ## Functions
+  - `apply_stock_cost(...)` internal: opens a layer and updates the average cost for IN movements,
+    consumes layers for OUT movements
+  - `apply_stock_movement(...)` takes an optional `p_unit_cost` and costs every movement that is
+    not a transfer leg. IN movements without a cost are booked at the current average cost.
+  - `record_stock_movement(...)` takes an optional `p_unit_cost`
+  - `receive_purchase_order(...)` books receipts at the order line's unit cost
+  - `seed_product_stock()` opens a layer for the initial quantity of a new product
+
+  ## Security
+  - Authenticated users can read cost layers; layers are only written through functions
+
+  ## Data
+  - Every product gets an opening layer for its current stock (including stock in transit),
+    costed at its preferred supplier's unit cost where one is set
+*/
+
+-- Create cost_layers table
+CREATE TABLE IF NOT EXISTS cost_layers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  transaction_id uuid REFERENCES stock_transactions(id) ON DELETE SET NULL,
+  quantity_received integer NOT NULL CHECK (quantity_received > 0),
+  quantity_remaining integer NOT NULL CHECK (quantity_remaining >= 0),
+  unit_cost decimal(12,4) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  received_at timestamptz DEFAULT now(),
+  CHECK (quantity_remaining <= quantity_received)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_layers_open ON cost_layers(product_id, received_at) WHERE quantity_remaining > 0;
+
+ALTER TABLE stock_transactions
+  ADD COLUMN IF NOT EXISTS unit_cost decimal(12,4) CHECK (unit_cost IS NULL OR unit_cost >= 0);
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS average_cost decimal(12,4) NOT NULL DEFAULT 0 CHECK (average_cost >= 0);
+
+-- Opening layers for existing stock
+UPDATE products
+SET average_cost = product_suppliers.unit_cost
+FROM product_suppliers
+WHERE product_suppliers.product_id = products.id
+AND product_suppliers.is_preferred;
+
+INSERT INTO cost_layers (product_id, quantity_received, quantity_remaining, unit_cost)
+SELECT products.id, stock.quantity, stock.quantity, products.average_cost
+FROM products
+JOIN (
+  SELECT product_id, SUM(quantity) AS quantity
+  FROM (
+    SELECT product_id, quantity FROM product_stock
+    UNION ALL
+    SELECT product_id, quantity FROM stock_transfers WHERE status = 'in_transit'
+  ) AS owned
+  GROUP BY product_id
+) AS stock ON stock.product_id = products.id
+WHERE stock.quantity > 0;
+
+-- Internal: cost a movement that has already been written to the ledger
+CREATE OR REPLACE FUNCTION apply_stock_cost(
+  p_product_id uuid,
+  p_transaction_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_unit_cost numeric
+)
+RETURNS void AS $$
+DECLARE
+  v_average numeric;
+  v_on_hand integer;
+  v_unit_cost numeric;
+  v_layer cost_layers%ROWTYPE;
+  v_remaining integer := p_quantity;
+  v_take integer;
+BEGIN
+  SELECT average_cost INTO v_average FROM products WHERE id = p_product_id;
+
+  IF p_type = 'IN' THEN
+    v_unit_cost := COALESCE(p_unit_cost, v_average);
+
+    SELECT COALESCE(SUM(quantity_remaining), 0) INTO v_on_hand
+    FROM cost_layers
+    WHERE product_id = p_product_id;
+
+    INSERT INTO cost_layers (product_id, transaction_id, quantity_received, quantity_remaining, unit_cost)
+    VALUES (p_product_id, p_transaction_id, p_quantity, p_quantity, v_unit_cost);
+
+    UPDATE stock_transactions SET unit_cost = v_unit_cost WHERE id = p_transaction_id;
+
+    UPDATE products
+    SET average_cost = round((v_on_hand * v_average + p_quantity * v_unit_cost) / (v_on_hand + p_quantity), 4)
+    WHERE id = p_product_id;
+  ELSE
+    FOR v_layer IN
+      SELECT * FROM cost_layers
+      WHERE product_id = p_product_id
+      AND quantity_remaining > 0
+      ORDER BY received_at, id
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_layer.quantity_remaining, v_remaining);
+
+      UPDATE cost_layers
+      SET quantity_remaining = quantity_remaining - v_take
+      WHERE id = v_layer.id;
+
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_stock_cost(uuid, uuid, text, integer, numeric) FROM PUBLIC, anon, authenticated;
+
+-- apply_stock_movement gains an optional unit cost
+DROP FUNCTION IF EXISTS apply_stock_movement(uuid, uuid, text, integer, text, uuid);
+
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text,
+  p_transfer_id uuid DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_location_id uuid;
+  v_current integer;
+  v_reserved integer;
+  v_transaction_id uuid;
+BEGIN
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_unit_cost < 0 THEN
+    RAISE EXCEPTION 'Unit cost cannot be negative'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the product first so concurrent movements at any location serialize on it
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity, reserved INTO v_current, v_reserved
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id
+  FOR UPDATE;
+
+  IF p_type = 'OUT' AND v_current - v_reserved < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object(
+              'available', GREATEST(v_current - v_reserved, 0),
+              'requested', p_quantity
+            )::text;
+  END IF;
+
+  INSERT INTO stock_transactions (product_id, location_id, user_id, quantity, type, notes, transfer_id)
+  VALUES (p_product_id, v_location_id, auth.uid(), p_quantity, p_type, COALESCE(p_notes, ''), p_transfer_id)
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE product_stock
+  SET quantity = CASE WHEN p_type = 'IN' THEN v_current + p_quantity ELSE v_current - p_quantity END
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id;
+
+  -- Transfers only move stock between locations; it keeps its cost
+  IF p_transfer_id IS NULL THEN
+    PERFORM apply_stock_cost(p_product_id, v_transaction_id, p_type, p_quantity, p_unit_cost);
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_stock_movement(uuid, uuid, text, integer, text, uuid, numeric) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS record_stock_movement(uuid, uuid, text, integer, text);
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text DEFAULT '',
+  p_unit_cost numeric DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_total integer;
+BEGIN
+  PERFORM assert_active_user();
+  PERFORM apply_stock_movement(p_product_id, p_location_id, p_type, p_quantity, p_notes, NULL, p_unit_cost);
+
+  SELECT quantity INTO v_total FROM products WHERE id = p_product_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_stock_movement(uuid, uuid, text, integer, text, numeric) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_stock_movement(uuid, uuid, text, integer, text, numeric) TO authenticated;
+
+-- Receipts are booked at the purchase order line's cost
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_location_id uuid,
+  p_lines jsonb
+)
+RETURNS text AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+  v_receipt jsonb;
+  v_line purchase_order_lines%ROWTYPE;
+  v_quantity integer;
+  v_transaction_id uuid;
+  v_status text;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Cannot receive against a % purchase order', v_order.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_receipt IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb))
+  LOOP
+    v_quantity := (v_receipt->>'quantity')::integer;
+    CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = (v_receipt->>'line_id')::uuid
+    AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order line not found'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity_ordered THEN
+      RAISE EXCEPTION 'Cannot receive % units, only % outstanding',
+        v_quantity, v_line.quantity_ordered - v_line.quantity_received
+        USING ERRCODE = '22023';
+    END IF;
+
+    v_transaction_id := apply_stock_movement(
+      v_line.product_id, COALESCE(p_location_id, v_order.location_id), 'IN', v_quantity, '',
+      NULL, v_line.unit_cost
+    );
+
+    UPDATE stock_transactions SET purchase_order_line_id = v_line.id WHERE id = v_transaction_id;
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + v_quantity
+    WHERE id = v_line.id;
+  END LOOP;
+
+  v_status := CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = p_purchase_order_id
+      AND quantity_received < quantity_ordered
+    ) THEN 'received'
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = p_purchase_order_id
+      AND quantity_received > 0
+    ) THEN 'partially_received'
+    ELSE v_order.status
+  END;
+
+  UPDATE purchase_orders SET status = v_status WHERE id = p_purchase_order_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The initial quantity of a new product opens a layer at its average cost
+CREATE OR REPLACE FUNCTION seed_product_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.quantity > 0 THEN
+    INSERT INTO product_stock (product_id, location_id, quantity)
+    SELECT NEW.id, locations.id, NEW.quantity
+    FROM locations
+    WHERE locations.is_default;
+
+    INSERT INTO cost_layers (product_id, quantity_received, quantity_remaining, unit_cost)
+    VALUES (NEW.id, NEW.quantity, NEW.quantity, NEW.average_cost);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Valuation per product under both methods
+CREATE OR REPLACE VIEW inventory_valuation
+WITH (security_invoker = true) AS
+SELECT
+  products.id AS product_id,
+  products.name,
+  products.sku,
+  products.category_id,
+  categories.name AS category_name,
+  products.average_cost,
+  COALESCE(layers.quantity, 0)::integer AS quantity,
+  COALESCE(layers.fifo_value, 0)::decimal(14,2) AS fifo_value,
+  (COALESCE(layers.quantity, 0) * products.average_cost)::decimal(14,2) AS average_value
+FROM products
+LEFT JOIN categories ON categories.id = products.category_id
+LEFT JOIN (
+  SELECT product_id, SUM(quantity_remaining) AS quantity, SUM(quantity_remaining * unit_cost) AS fifo_value
+  FROM cost_layers
+  GROUP BY product_id
+) AS layers ON layers.product_id = products.id;
+
+GRANT SELECT ON inventory_valuation TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE cost_layers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for cost_layers
+CREATE POLICY "Anyone can view cost layers"
+  ON cost_layers FOR SELECT
+  TO authenticated
+  USING (true);
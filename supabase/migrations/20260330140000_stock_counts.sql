@@ -0,0 +1,417 @@
+/*
+  # Stock Counts
+
+  ## Overview
+  Count differences used to be fixed by editing a product's quantity, which left no trace in the
+  ledger. A stock count session snapshots the system quantity of every product in scope at one
+  location (optionally narrowed to a category). Staff enter counted quantities, the session is
+  submitted for review, and an admin approval posts an ADJUST movement for every variance.
+  Variances are measured against the snapshot, so movements made while counting are kept.
+
+  ## New Tables
+
+  ### `stock_counts`
+  - `id` (uuid, primary key)
+  - `count_number` (text, unique, generated as SC-00001, SC-00002, ...)
+  - `location_id` (uuid, references locations, where the count takes place)
+  - `category_id` (uuid, references categories, optional scope)
+  - `blind` (boolean, hide system quantities on the counting screen)
+  - `status` (text, 'counting', 'review', 'approved' or 'cancelled')
+  - `notes` (text)
+  - `created_by` (uuid, references auth.users)
+  - `submitted_at` (timestamptz)
+  - `approved_by` (uuid, references auth.users)
+  - `approved_at` (timestamptz)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### `stock_count_lines`
+  - `id` (uuid, primary key)
+  - `stock_count_id` (uuid, references stock_counts)
+  - `product_id` (uuid, references products)
+  - `system_quantity` (integer, quantity at the location when the count started)
+  - `counted_quantity` (integer, NULL until counted)
+  - `counted_by` (uuid, references auth.users)
+  - `counted_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `stock_transactions`
+  - `type` now also accepts 'ADJUST'. ADJUST quantities are signed: positive adds stock,
+    negative removes it.
+  - `stock_count_line_id` (uuid, references stock_count_lines, set on count adjustments)
+
+  ## Functions
+  - `apply_stock_movement(...)` accepts ADJUST movements. Positive adjustments are costed like
+    receipts, negative ones like issues. Adjustments may not take a location below zero.
+  - `start_stock_count(p_location_id, p_category_id, p_blind, p_notes)` creates a session with a
+    line per product in scope and returns its id
+  - `save_stock_count_lines(p_stock_count_id, p_lines)` records counts given as
+    `[{"line_id": uuid, "counted_quantity": n | null}]` while counting or in review
+  - `submit_stock_count(p_stock_count_id)` moves a session to review
+  - `approve_stock_count(p_stock_count_id)` admin only: posts the adjustments
+  - `cancel_stock_count(p_stock_count_id)` abandons a session without adjusting anything
+
+  ## Security
+  - Authenticated users can read stock counts and lines
+  - All writes happen through functions
+*/
+
+CREATE SEQUENCE IF NOT EXISTS stock_count_number_seq;
+
+-- Create stock_counts table
+CREATE TABLE IF NOT EXISTS stock_counts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  count_number text UNIQUE NOT NULL DEFAULT 'SC-' || lpad(nextval('stock_count_number_seq')::text, 5, '0'),
+  location_id uuid NOT NULL REFERENCES locations(id) ON DELETE RESTRICT,
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  blind boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'review', 'approved', 'cancelled')),
+  notes text DEFAULT '',
+  created_by uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  submitted_at timestamptz,
+  approved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create stock_count_lines table
+CREATE TABLE IF NOT EXISTS stock_count_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_count_id uuid NOT NULL REFERENCES stock_counts(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  system_quantity integer NOT NULL CHECK (system_quantity >= 0),
+  counted_quantity integer CHECK (counted_quantity IS NULL OR counted_quantity >= 0),
+  counted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  counted_at timestamptz,
+  UNIQUE (stock_count_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_counts_status ON stock_counts(status);
+CREATE INDEX IF NOT EXISTS idx_stock_count_lines_count ON stock_count_lines(stock_count_id);
+
+ALTER TABLE stock_transactions DROP CONSTRAINT IF EXISTS stock_transactions_type_check;
+ALTER TABLE stock_transactions
+  ADD CONSTRAINT stock_transactions_type_check CHECK (type IN ('IN', 'OUT', 'ADJUST'));
+
+ALTER TABLE stock_transactions
+  ADD COLUMN IF NOT EXISTS stock_count_line_id uuid REFERENCES stock_count_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_transactions_stock_count_line ON stock_transactions(stock_count_line_id);
+
+DROP TRIGGER IF EXISTS update_stock_counts_updated_at ON stock_counts;
+CREATE TRIGGER update_stock_counts_updated_at BEFORE UPDATE ON stock_counts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- apply_stock_movement learns signed ADJUST movements
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text,
+  p_transfer_id uuid DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_location_id uuid;
+  v_current integer;
+  v_reserved integer;
+  v_change integer;
+  v_transaction_id uuid;
+BEGIN
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT', 'ADJUST') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 OR (p_type <> 'ADJUST' AND p_quantity < 0) THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_unit_cost < 0 THEN
+    RAISE EXCEPTION 'Unit cost cannot be negative'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the product first so concurrent movements at any location serialize on it
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity, reserved INTO v_current, v_reserved
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id
+  FOR UPDATE;
+
+  IF p_type = 'OUT' AND v_current - v_reserved < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object(
+              'available', GREATEST(v_current - v_reserved, 0),
+              'requested', p_quantity
+            )::text;
+  END IF;
+
+  -- Adjustments record what is physically there, so they may eat into reserved stock
+  IF p_type = 'ADJUST' AND v_current + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object('available', v_current, 'requested', -p_quantity)::text;
+  END IF;
+
+  v_change := CASE WHEN p_type = 'OUT' THEN -p_quantity ELSE p_quantity END;
+
+  INSERT INTO stock_transactions (product_id, location_id, user_id, quantity, type, notes, transfer_id)
+  VALUES (p_product_id, v_location_id, auth.uid(), p_quantity, p_type, COALESCE(p_notes, ''), p_transfer_id)
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE product_stock
+  SET quantity = v_current + v_change
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id;
+
+  -- Transfers only move stock between locations; it keeps its cost
+  IF p_transfer_id IS NULL THEN
+    PERFORM apply_stock_cost(
+      p_product_id,
+      v_transaction_id,
+      CASE WHEN v_change > 0 THEN 'IN' ELSE 'OUT' END,
+      abs(v_change),
+      p_unit_cost
+    );
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Stock count sessions
+CREATE OR REPLACE FUNCTION start_stock_count(
+  p_location_id uuid,
+  p_category_id uuid DEFAULT NULL,
+  p_blind boolean DEFAULT false,
+  p_notes text DEFAULT ''
+)
+RETURNS uuid AS $$
+DECLARE
+  v_stock_count_id uuid;
+BEGIN
+  PERFORM assert_active_user();
+
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = p_location_id AND is_active) THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO stock_counts (location_id, category_id, blind, notes)
+  VALUES (p_location_id, p_category_id, COALESCE(p_blind, false), COALESCE(p_notes, ''))
+  RETURNING id INTO v_stock_count_id;
+
+  INSERT INTO stock_count_lines (stock_count_id, product_id, system_quantity)
+  SELECT v_stock_count_id, products.id, COALESCE(product_stock.quantity, 0)
+  FROM products
+  LEFT JOIN product_stock
+    ON product_stock.product_id = products.id
+    AND product_stock.location_id = p_location_id
+  WHERE p_category_id IS NULL OR products.category_id = p_category_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No products to count in this scope'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN v_stock_count_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION save_stock_count_lines(
+  p_stock_count_id uuid,
+  p_lines jsonb
+)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+  v_entry jsonb;
+  v_counted integer;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT status INTO v_status FROM stock_counts WHERE id = p_stock_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_status NOT IN ('counting', 'review') THEN
+    RAISE EXCEPTION 'Cannot record counts on a % stock count', v_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb))
+  LOOP
+    v_counted := (v_entry->>'counted_quantity')::integer;
+
+    IF v_counted < 0 THEN
+      RAISE EXCEPTION 'Counted quantity cannot be negative'
+        USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE stock_count_lines
+    SET counted_quantity = v_counted,
+        counted_by = CASE WHEN v_counted IS NULL THEN NULL ELSE auth.uid() END,
+        counted_at = CASE WHEN v_counted IS NULL THEN NULL ELSE now() END
+    WHERE id = (v_entry->>'line_id')::uuid
+    AND stock_count_id = p_stock_count_id
+    AND counted_quantity IS DISTINCT FROM v_counted;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_stock_count(p_stock_count_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT status INTO v_status FROM stock_counts WHERE id = p_stock_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_status <> 'counting' THEN
+    RAISE EXCEPTION 'Cannot submit a % stock count', v_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE stock_counts SET status = 'review', submitted_at = now() WHERE id = p_stock_count_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION approve_stock_count(p_stock_count_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_count stock_counts%ROWTYPE;
+  v_line stock_count_lines%ROWTYPE;
+  v_transaction_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+    AND profiles.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can approve stock counts'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_stock_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_count.status <> 'review' THEN
+    RAISE EXCEPTION 'Cannot approve a % stock count', v_count.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM stock_count_lines
+    WHERE stock_count_id = p_stock_count_id
+    AND counted_quantity IS NOT NULL
+    AND counted_quantity <> system_quantity
+    ORDER BY product_id
+  LOOP
+    v_transaction_id := apply_stock_movement(
+      v_line.product_id,
+      v_count.location_id,
+      'ADJUST',
+      v_line.counted_quantity - v_line.system_quantity,
+      'Stock count ' || v_count.count_number
+    );
+
+    UPDATE stock_transactions SET stock_count_line_id = v_line.id WHERE id = v_transaction_id;
+  END LOOP;
+
+  UPDATE stock_counts
+  SET status = 'approved', approved_by = auth.uid(), approved_at = now()
+  WHERE id = p_stock_count_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cancel_stock_count(p_stock_count_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT status INTO v_status FROM stock_counts WHERE id = p_stock_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_status NOT IN ('counting', 'review') THEN
+    RAISE EXCEPTION 'Cannot cancel a % stock count', v_status
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE stock_counts SET status = 'cancelled' WHERE id = p_stock_count_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION start_stock_count(uuid, uuid, boolean, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION save_stock_count_lines(uuid, jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION submit_stock_count(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION approve_stock_count(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION cancel_stock_count(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION start_stock_count(uuid, uuid, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_stock_count_lines(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_stock_count(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_stock_count(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_stock_count(uuid) TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE stock_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_count_lines ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for stock_counts
+CREATE POLICY "Anyone can view stock counts"
+  ON stock_counts FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- RLS Policies for stock_count_lines
+CREATE POLICY "Anyone can view stock count lines"
+  ON stock_count_lines FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,457 @@
+/*
+  # Lot and Expiry Tracking
+
+  ## Overview
+  Consumables expire, but stock movements had no notion of a lot. Products can now be flagged as
+  lot-tracked. Receipts of such products name a lot and its expiry date, and every location keeps
+  a balance per lot. Issues either draw from a chosen lot or, by default, first-expired-first-out
+  across the lots at the location. Transfers carry their lots to the destination.
+
+  ## New Tables
+
+  ### `stock_lots`
+  Balance of one lot of a product at a location
+  - `id` (uuid, primary key)
+  - `product_id` (uuid, references products)
+  - `location_id` (uuid, references locations)
+  - `lot_number` (text, unique per product and location)
+  - `expiry_date` (date, optional)
+  - `quantity` (integer, never negative)
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### `stock_transaction_lots`
+  Lots a ledger row moved; an issue may draw from several lots
+  - `transaction_id` (uuid, references stock_transactions)
+  - `lot_id` (uuid, references stock_lots)
+  - `quantity` (integer, units of the lot moved)
+
+  ## Modified Tables
+
+  ### `products`
+  - `track_lots` (boolean, receipts need a lot number; existing Consumables are flagged)
+
+  ## Functions
+  - `apply_lot_movement(p_transaction_id, p_lot_id, p_lot_number, p_expiry_date)` internal: books
+    an incoming movement into the named lot (or the lots of the transfer's outgoing leg), and an
+    outgoing movement out of the chosen lot or FEFO across the location's lots
+  - `apply_stock_movement(...)` takes optional `p_lot_id`, `p_lot_number` and `p_expiry_date` and
+    updates lot balances for every movement
+  - `record_stock_movement(...)` takes the same lot arguments and requires a lot number when
+    receiving a lot-tracked product
+  - `receive_purchase_order(...)` accepts `lot_number` and `expiry_date` per receipt line, required
+    for lot-tracked products
+
+  ## Security
+  - Authenticated users can read lots and their movements; writes only happen through functions
+*/
+
+-- Create stock_lots table
+CREATE TABLE IF NOT EXISTS stock_lots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  location_id uuid NOT NULL REFERENCES locations(id) ON DELETE RESTRICT,
+  lot_number text NOT NULL,
+  expiry_date date,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (product_id, location_id, lot_number)
+);
+
+-- Create stock_transaction_lots table
+CREATE TABLE IF NOT EXISTS stock_transaction_lots (
+  transaction_id uuid NOT NULL REFERENCES stock_transactions(id) ON DELETE CASCADE,
+  lot_id uuid NOT NULL REFERENCES stock_lots(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  PRIMARY KEY (transaction_id, lot_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_lots_expiry ON stock_lots(expiry_date) WHERE quantity > 0;
+CREATE INDEX IF NOT EXISTS idx_stock_transaction_lots_lot ON stock_transaction_lots(lot_id);
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS track_lots boolean NOT NULL DEFAULT false;
+
+UPDATE products
+SET track_lots = true
+FROM categories
+WHERE categories.id = products.category_id
+AND categories.name = 'Consumables';
+
+DROP TRIGGER IF EXISTS update_stock_lots_updated_at ON stock_lots;
+CREATE TRIGGER update_stock_lots_updated_at BEFORE UPDATE ON stock_lots
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Internal: keep lot balances in step with a ledger row
+CREATE OR REPLACE FUNCTION apply_lot_movement(
+  p_transaction_id uuid,
+  p_lot_id uuid,
+  p_lot_number text,
+  p_expiry_date date
+)
+RETURNS void AS $$
+DECLARE
+  v_transaction stock_transactions%ROWTYPE;
+  v_change integer;
+  v_lot stock_lots%ROWTYPE;
+  v_lot_id uuid;
+  v_source record;
+  v_remaining integer;
+  v_take integer;
+BEGIN
+  SELECT * INTO v_transaction FROM stock_transactions WHERE id = p_transaction_id;
+  v_change := CASE WHEN v_transaction.type = 'OUT' THEN -v_transaction.quantity ELSE v_transaction.quantity END;
+
+  IF v_change > 0 THEN
+    IF NULLIF(trim(p_lot_number), '') IS NOT NULL THEN
+      INSERT INTO stock_lots (product_id, location_id, lot_number, expiry_date, quantity)
+      VALUES (v_transaction.product_id, v_transaction.location_id, trim(p_lot_number), p_expiry_date, v_change)
+      ON CONFLICT (product_id, location_id, lot_number) DO UPDATE
+      SET quantity = stock_lots.quantity + EXCLUDED.quantity,
+          expiry_date = COALESCE(stock_lots.expiry_date, EXCLUDED.expiry_date)
+      RETURNING id INTO v_lot_id;
+
+      INSERT INTO stock_transaction_lots (transaction_id, lot_id, quantity)
+      VALUES (p_transaction_id, v_lot_id, v_change);
+    ELSIF v_transaction.transfer_id IS NOT NULL THEN
+      -- Re-book the lots the outgoing leg of the transfer drew from
+      FOR v_source IN
+        SELECT stock_lots.lot_number, stock_lots.expiry_date, stock_transaction_lots.quantity
+        FROM stock_transaction_lots
+        JOIN stock_lots ON stock_lots.id = stock_transaction_lots.lot_id
+        JOIN stock_transactions ON stock_transactions.id = stock_transaction_lots.transaction_id
+        WHERE stock_transactions.transfer_id = v_transaction.transfer_id
+        AND stock_transactions.type = 'OUT'
+      LOOP
+        INSERT INTO stock_lots (product_id, location_id, lot_number, expiry_date, quantity)
+        VALUES (v_transaction.product_id, v_transaction.location_id, v_source.lot_number, v_source.expiry_date, v_source.quantity)
+        ON CONFLICT (product_id, location_id, lot_number) DO UPDATE
+        SET quantity = stock_lots.quantity + EXCLUDED.quantity,
+            expiry_date = COALESCE(stock_lots.expiry_date, EXCLUDED.expiry_date)
+        RETURNING id INTO v_lot_id;
+
+        INSERT INTO stock_transaction_lots (transaction_id, lot_id, quantity)
+        VALUES (p_transaction_id, v_lot_id, v_source.quantity);
+      END LOOP;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  v_remaining := -v_change;
+
+  IF p_lot_id IS NOT NULL THEN
+    SELECT * INTO v_lot
+    FROM stock_lots
+    WHERE id = p_lot_id
+    AND product_id = v_transaction.product_id
+    AND location_id = v_transaction.location_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Lot not found at this location'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_lot.quantity < v_remaining THEN
+      RAISE EXCEPTION 'Insufficient stock quantity'
+        USING ERRCODE = 'IV001',
+              DETAIL = json_build_object('available', v_lot.quantity, 'requested', v_remaining)::text;
+    END IF;
+
+    UPDATE stock_lots SET quantity = quantity - v_remaining WHERE id = v_lot.id;
+
+    INSERT INTO stock_transaction_lots (transaction_id, lot_id, quantity)
+    VALUES (p_transaction_id, v_lot.id, v_remaining);
+
+    RETURN;
+  END IF;
+
+  -- First expired, first out; stock received before lot tracking is issued last
+  FOR v_lot IN
+    SELECT * FROM stock_lots
+    WHERE product_id = v_transaction.product_id
+    AND location_id = v_transaction.location_id
+    AND quantity > 0
+    ORDER BY expiry_date NULLS LAST, created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining = 0;
+    v_take := LEAST(v_lot.quantity, v_remaining);
+
+    UPDATE stock_lots SET quantity = quantity - v_take WHERE id = v_lot.id;
+
+    INSERT INTO stock_transaction_lots (transaction_id, lot_id, quantity)
+    VALUES (p_transaction_id, v_lot.id, v_take);
+
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_lot_movement(uuid, uuid, text, date) FROM PUBLIC, anon, authenticated;
+
+-- apply_stock_movement gains optional lot arguments
+DROP FUNCTION IF EXISTS apply_stock_movement(uuid, uuid, text, integer, text, uuid, numeric);
+
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text,
+  p_transfer_id uuid DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL,
+  p_lot_id uuid DEFAULT NULL,
+  p_lot_number text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_location_id uuid;
+  v_current integer;
+  v_reserved integer;
+  v_change integer;
+  v_transaction_id uuid;
+BEGIN
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT', 'ADJUST') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 OR (p_type <> 'ADJUST' AND p_quantity < 0) THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_unit_cost < 0 THEN
+    RAISE EXCEPTION 'Unit cost cannot be negative'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the product first so concurrent movements at any location serialize on it
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity, reserved INTO v_current, v_reserved
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id
+  FOR UPDATE;
+
+  IF p_type = 'OUT' AND v_current - v_reserved < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object(
+              'available', GREATEST(v_current - v_reserved, 0),
+              'requested', p_quantity
+            )::text;
+  END IF;
+
+  -- Adjustments record what is physically there, so they may eat into reserved stock
+  IF p_type = 'ADJUST' AND v_current + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object('available', v_current, 'requested', -p_quantity)::text;
+  END IF;
+
+  v_change := CASE WHEN p_type = 'OUT' THEN -p_quantity ELSE p_quantity END;
+
+  INSERT INTO stock_transactions (product_id, location_id, user_id, quantity, type, notes, transfer_id)
+  VALUES (p_product_id, v_location_id, auth.uid(), p_quantity, p_type, COALESCE(p_notes, ''), p_transfer_id)
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE product_stock
+  SET quantity = v_current + v_change
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id;
+
+  -- Transfers only move stock between locations; it keeps its cost
+  IF p_transfer_id IS NULL THEN
+    PERFORM apply_stock_cost(
+      p_product_id,
+      v_transaction_id,
+      CASE WHEN v_change > 0 THEN 'IN' ELSE 'OUT' END,
+      abs(v_change),
+      p_unit_cost
+    );
+  END IF;
+
+  PERFORM apply_lot_movement(v_transaction_id, p_lot_id, p_lot_number, p_expiry_date);
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_stock_movement(uuid, uuid, text, integer, text, uuid, numeric, uuid, text, date) FROM PUBLIC, anon, authenticated;
+
+-- Internal: lot-tracked products cannot be received without a lot number
+CREATE OR REPLACE FUNCTION assert_lot_number(p_product_id uuid, p_lot_number text)
+RETURNS void AS $$
+BEGIN
+  IF NULLIF(trim(p_lot_number), '') IS NULL
+  AND EXISTS (SELECT 1 FROM products WHERE id = p_product_id AND track_lots) THEN
+    RAISE EXCEPTION 'A lot number is required for lot-tracked products'
+      USING ERRCODE = '22023';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION assert_lot_number(uuid, text) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS record_stock_movement(uuid, uuid, text, integer, text, numeric);
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text DEFAULT '',
+  p_unit_cost numeric DEFAULT NULL,
+  p_lot_id uuid DEFAULT NULL,
+  p_lot_number text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_total integer;
+BEGIN
+  PERFORM assert_active_user();
+
+  IF p_type = 'IN' THEN
+    PERFORM assert_lot_number(p_product_id, p_lot_number);
+  END IF;
+
+  PERFORM apply_stock_movement(
+    p_product_id, p_location_id, p_type, p_quantity, p_notes, NULL, p_unit_cost,
+    p_lot_id, p_lot_number, p_expiry_date
+  );
+
+  SELECT quantity INTO v_total FROM products WHERE id = p_product_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_stock_movement(uuid, uuid, text, integer, text, numeric, uuid, text, date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_stock_movement(uuid, uuid, text, integer, text, numeric, uuid, text, date) TO authenticated;
+
+-- Receipts name the lot they arrived in
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_location_id uuid,
+  p_lines jsonb
+)
+RETURNS text AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+  v_receipt jsonb;
+  v_line purchase_order_lines%ROWTYPE;
+  v_quantity integer;
+  v_transaction_id uuid;
+  v_status text;
+BEGIN
+  PERFORM assert_active_user();
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Cannot receive against a % purchase order', v_order.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_receipt IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb))
+  LOOP
+    v_quantity := (v_receipt->>'quantity')::integer;
+    CONTINUE WHEN v_quantity IS NULL OR v_quantity = 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = (v_receipt->>'line_id')::uuid
+    AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order line not found'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_quantity < 0 OR v_line.quantity_received + v_quantity > v_line.quantity_ordered THEN
+      RAISE EXCEPTION 'Cannot receive % units, only % outstanding',
+        v_quantity, v_line.quantity_ordered - v_line.quantity_received
+        USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM assert_lot_number(v_line.product_id, v_receipt->>'lot_number');
+
+    v_transaction_id := apply_stock_movement(
+      v_line.product_id, COALESCE(p_location_id, v_order.location_id), 'IN', v_quantity, '',
+      NULL, v_line.unit_cost, NULL, v_receipt->>'lot_number', (v_receipt->>'expiry_date')::date
+    );
+
+    UPDATE stock_transactions SET purchase_order_line_id = v_line.id WHERE id = v_transaction_id;
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + v_quantity
+    WHERE id = v_line.id;
+  END LOOP;
+
+  v_status := CASE
+    WHEN NOT EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = p_purchase_order_id
+      AND quantity_received < quantity_ordered
+    ) THEN 'received'
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = p_purchase_order_id
+      AND quantity_received > 0
+    ) THEN 'partially_received'
+    ELSE v_order.status
+  END;
+
+  UPDATE purchase_orders SET status = v_status WHERE id = p_purchase_order_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE stock_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_transaction_lots ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for stock_lots
+CREATE POLICY "Anyone can view stock lots"
+  ON stock_lots FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- RLS Policies for stock_transaction_lots
+CREATE POLICY "Anyone can view stock transaction lots"
+  ON stock_transaction_lots FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,401 @@
+/*
+  # Serial Number Tracking
+
+  ## Overview
+  Serialized products (Electronics by default) record which individual units moved. Receipts name
+  one serial number per unit, issues name the units that leave, and every serial keeps its current
+  location and status together with the ledger rows that moved it. Stock that was on hand before a
+  product became serialized stays untracked and is issued before any serialized unit.
+
+  ## New Tables
+
+  ### `serial_numbers`
+  One physical unit of a serialized product
+  - `id` (uuid, primary key)
+  - `product_id` (uuid, references products)
+  - `serial_number` (text, unique per product)
+  - `location_id` (uuid, references locations, set while the unit is in stock)
+  - `status` (text, 'in_stock', 'in_transit', 'issued' or 'written_off')
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### `stock_transaction_serials`
+  Serial numbers a ledger row moved
+  - `transaction_id` (uuid, references stock_transactions)
+  - `serial_id` (uuid, references serial_numbers)
+
+  ## Modified Tables
+
+  ### `products`
+  - `track_serials` (boolean, receipts and issues name serial numbers; existing Electronics are
+    flagged)
+
+  ## Functions
+  - `apply_serial_movement(p_transaction_id, p_serial_numbers)` internal: brings named serials into
+    stock, issues named serials, or, when none are named, moves the serials of the transfer's
+    outgoing leg or the longest-held serials beyond the untracked stock
+  - `apply_stock_movement(...)` takes an optional `p_serial_numbers` and updates serials for every
+    movement
+  - `record_stock_movement(...)` takes `p_serial_numbers`; receipts of serialized products need one
+    per unit and issues need enough to cover what untracked stock cannot
+
+  ## Security
+  - Authenticated users can read serial numbers and their movements; writes only happen through
+    functions
+*/
+
+-- Create serial_numbers table
+CREATE TABLE IF NOT EXISTS serial_numbers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  serial_number text NOT NULL CHECK (serial_number <> ''),
+  location_id uuid REFERENCES locations(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'in_stock'
+    CHECK (status IN ('in_stock', 'in_transit', 'issued', 'written_off')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (product_id, serial_number)
+);
+
+-- Create stock_transaction_serials table
+CREATE TABLE IF NOT EXISTS stock_transaction_serials (
+  transaction_id uuid NOT NULL REFERENCES stock_transactions(id) ON DELETE CASCADE,
+  serial_id uuid NOT NULL REFERENCES serial_numbers(id) ON DELETE CASCADE,
+  PRIMARY KEY (transaction_id, serial_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_serial_numbers_serial_number ON serial_numbers(serial_number);
+CREATE INDEX IF NOT EXISTS idx_serial_numbers_stock
+  ON serial_numbers(product_id, location_id) WHERE status = 'in_stock';
+CREATE INDEX IF NOT EXISTS idx_stock_transaction_serials_serial ON stock_transaction_serials(serial_id);
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS track_serials boolean NOT NULL DEFAULT false;
+
+UPDATE products
+SET track_serials = true
+FROM categories
+WHERE categories.id = products.category_id
+AND categories.name = 'Electronics';
+
+DROP TRIGGER IF EXISTS update_serial_numbers_updated_at ON serial_numbers;
+CREATE TRIGGER update_serial_numbers_updated_at BEFORE UPDATE ON serial_numbers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Internal: keep serial numbers in step with a ledger row
+CREATE OR REPLACE FUNCTION apply_serial_movement(
+  p_transaction_id uuid,
+  p_serial_numbers text[]
+)
+RETURNS void AS $$
+DECLARE
+  v_transaction stock_transactions%ROWTYPE;
+  v_change integer;
+  v_serial text;
+  v_serial_id uuid;
+  v_status text;
+  v_untracked integer;
+BEGIN
+  SELECT * INTO v_transaction FROM stock_transactions WHERE id = p_transaction_id;
+  v_change := CASE WHEN v_transaction.type = 'OUT' THEN -v_transaction.quantity ELSE v_transaction.quantity END;
+
+  IF v_change > 0 THEN
+    IF p_serial_numbers IS NOT NULL THEN
+      IF cardinality(p_serial_numbers) <> v_change THEN
+        RAISE EXCEPTION 'Enter one serial number per unit: % entered for % units',
+          cardinality(p_serial_numbers), v_change
+          USING ERRCODE = '22023';
+      END IF;
+
+      FOREACH v_serial IN ARRAY p_serial_numbers
+      LOOP
+        v_serial_id := NULL;
+
+        -- A serial that left stock earlier may come back, e.g. as a customer return
+        INSERT INTO serial_numbers (product_id, serial_number, location_id, status)
+        VALUES (v_transaction.product_id, trim(v_serial), v_transaction.location_id, 'in_stock')
+        ON CONFLICT (product_id, serial_number) DO UPDATE
+        SET location_id = EXCLUDED.location_id, status = 'in_stock'
+        WHERE serial_numbers.status <> 'in_stock'
+        RETURNING id INTO v_serial_id;
+
+        IF v_serial_id IS NULL THEN
+          RAISE EXCEPTION 'Serial number % is already in stock', trim(v_serial)
+            USING ERRCODE = '22023';
+        END IF;
+
+        INSERT INTO stock_transaction_serials (transaction_id, serial_id)
+        VALUES (p_transaction_id, v_serial_id);
+      END LOOP;
+    ELSIF v_transaction.transfer_id IS NOT NULL THEN
+      -- Land the serials the outgoing leg of the transfer took
+      FOR v_serial_id IN
+        SELECT stock_transaction_serials.serial_id
+        FROM stock_transaction_serials
+        JOIN stock_transactions ON stock_transactions.id = stock_transaction_serials.transaction_id
+        WHERE stock_transactions.transfer_id = v_transaction.transfer_id
+        AND stock_transactions.type = 'OUT'
+      LOOP
+        UPDATE serial_numbers
+        SET location_id = v_transaction.location_id, status = 'in_stock'
+        WHERE id = v_serial_id;
+
+        INSERT INTO stock_transaction_serials (transaction_id, serial_id)
+        VALUES (p_transaction_id, v_serial_id);
+      END LOOP;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  v_status := CASE
+    WHEN v_transaction.transfer_id IS NOT NULL THEN 'in_transit'
+    WHEN v_transaction.type = 'ADJUST' THEN 'written_off'
+    ELSE 'issued'
+  END;
+
+  -- Units on hand before this movement that no serial accounts for
+  SELECT product_stock.quantity - v_change - (
+    SELECT count(*) FROM serial_numbers
+    WHERE product_id = v_transaction.product_id
+    AND location_id = v_transaction.location_id
+    AND status = 'in_stock'
+  )
+  INTO v_untracked
+  FROM product_stock
+  WHERE product_id = v_transaction.product_id
+  AND location_id = v_transaction.location_id;
+
+  v_untracked := GREATEST(v_untracked, 0);
+
+  IF p_serial_numbers IS NOT NULL THEN
+    IF cardinality(p_serial_numbers) > -v_change
+    OR cardinality(p_serial_numbers) < -v_change - v_untracked THEN
+      RAISE EXCEPTION 'Select % serial numbers for this movement', GREATEST(-v_change - v_untracked, 0)
+        USING ERRCODE = '22023';
+    END IF;
+
+    FOREACH v_serial IN ARRAY p_serial_numbers
+    LOOP
+      SELECT id INTO v_serial_id
+      FROM serial_numbers
+      WHERE product_id = v_transaction.product_id
+      AND serial_number = trim(v_serial)
+      AND location_id = v_transaction.location_id
+      AND status = 'in_stock'
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Serial number % is not in stock at this location', trim(v_serial)
+          USING ERRCODE = 'P0002';
+      END IF;
+
+      UPDATE serial_numbers SET location_id = NULL, status = v_status WHERE id = v_serial_id;
+
+      INSERT INTO stock_transaction_serials (transaction_id, serial_id)
+      VALUES (p_transaction_id, v_serial_id);
+    END LOOP;
+
+    RETURN;
+  END IF;
+
+  -- Untracked units go first; serials are only taken for what they cannot cover
+  FOR v_serial_id IN
+    SELECT id FROM serial_numbers
+    WHERE product_id = v_transaction.product_id
+    AND location_id = v_transaction.location_id
+    AND status = 'in_stock'
+    ORDER BY updated_at
+    LIMIT GREATEST(-v_change - v_untracked, 0)
+    FOR UPDATE
+  LOOP
+    UPDATE serial_numbers SET location_id = NULL, status = v_status WHERE id = v_serial_id;
+
+    INSERT INTO stock_transaction_serials (transaction_id, serial_id)
+    VALUES (p_transaction_id, v_serial_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_serial_movement(uuid, text[]) FROM PUBLIC, anon, authenticated;
+
+-- apply_stock_movement gains an optional list of serial numbers
+DROP FUNCTION IF EXISTS apply_stock_movement(uuid, uuid, text, integer, text, uuid, numeric, uuid, text, date);
+
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text,
+  p_transfer_id uuid DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL,
+  p_lot_id uuid DEFAULT NULL,
+  p_lot_number text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL,
+  p_serial_numbers text[] DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_location_id uuid;
+  v_current integer;
+  v_reserved integer;
+  v_change integer;
+  v_transaction_id uuid;
+BEGIN
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT', 'ADJUST') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 OR (p_type <> 'ADJUST' AND p_quantity < 0) THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_unit_cost < 0 THEN
+    RAISE EXCEPTION 'Unit cost cannot be negative'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the product first so concurrent movements at any location serialize on it
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity, reserved INTO v_current, v_reserved
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id
+  FOR UPDATE;
+
+  IF p_type = 'OUT' AND v_current - v_reserved < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object(
+              'available', GREATEST(v_current - v_reserved, 0),
+              'requested', p_quantity
+            )::text;
+  END IF;
+
+  -- Adjustments record what is physically there, so they may eat into reserved stock
+  IF p_type = 'ADJUST' AND v_current + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object('available', v_current, 'requested', -p_quantity)::text;
+  END IF;
+
+  v_change := CASE WHEN p_type = 'OUT' THEN -p_quantity ELSE p_quantity END;
+
+  INSERT INTO stock_transactions (product_id, location_id, user_id, quantity, type, notes, transfer_id)
+  VALUES (p_product_id, v_location_id, auth.uid(), p_quantity, p_type, COALESCE(p_notes, ''), p_transfer_id)
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE product_stock
+  SET quantity = v_current + v_change
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id;
+
+  -- Transfers only move stock between locations; it keeps its cost
+  IF p_transfer_id IS NULL THEN
+    PERFORM apply_stock_cost(
+      p_product_id,
+      v_transaction_id,
+      CASE WHEN v_change > 0 THEN 'IN' ELSE 'OUT' END,
+      abs(v_change),
+      p_unit_cost
+    );
+  END IF;
+
+  PERFORM apply_lot_movement(v_transaction_id, p_lot_id, p_lot_number, p_expiry_date);
+  PERFORM apply_serial_movement(v_transaction_id, p_serial_numbers);
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_stock_movement(uuid, uuid, text, integer, text, uuid, numeric, uuid, text, date, text[]) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS record_stock_movement(uuid, uuid, text, integer, text, numeric, uuid, text, date);
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text DEFAULT '',
+  p_unit_cost numeric DEFAULT NULL,
+  p_lot_id uuid DEFAULT NULL,
+  p_lot_number text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL,
+  p_serial_numbers text[] DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_track_serials boolean;
+  v_total integer;
+BEGIN
+  PERFORM assert_active_user();
+
+  IF p_type = 'IN' THEN
+    PERFORM assert_lot_number(p_product_id, p_lot_number);
+  END IF;
+
+  SELECT track_serials INTO v_track_serials FROM products WHERE id = p_product_id;
+
+  IF p_serial_numbers IS NOT NULL AND NOT COALESCE(v_track_serials, false) THEN
+    RAISE EXCEPTION 'Product is not serialized'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Hand-recorded movements of serialized products always name their serials
+  IF v_track_serials AND p_type IN ('IN', 'OUT') THEN
+    p_serial_numbers := COALESCE(p_serial_numbers, '{}');
+  END IF;
+
+  PERFORM apply_stock_movement(
+    p_product_id, p_location_id, p_type, p_quantity, p_notes, NULL, p_unit_cost,
+    p_lot_id, p_lot_number, p_expiry_date, p_serial_numbers
+  );
+
+  SELECT quantity INTO v_total FROM products WHERE id = p_product_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_stock_movement(uuid, uuid, text, integer, text, numeric, uuid, text, date, text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_stock_movement(uuid, uuid, text, integer, text, numeric, uuid, text, date, text[]) TO authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE serial_numbers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_transaction_serials ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for serial_numbers
+CREATE POLICY "Anyone can view serial numbers"
+  ON serial_numbers FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- RLS Policies for stock_transaction_serials
+CREATE POLICY "Anyone can view stock transaction serials"
+  ON stock_transaction_serials FOR SELECT
+  TO authenticated
+  USING (true);
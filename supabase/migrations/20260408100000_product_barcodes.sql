@@ -0,0 +1,17 @@
+/*
+  # Product Barcodes
+
+  ## Overview
+  Products can carry the barcode printed on their packaging (EAN, UPC or Code128), so scanning a
+  unit finds the product even when the barcode differs from the SKU.
+
+  ## Modified Tables
+
+  ### `products`
+  - `barcode` (text, optional, unique across products)
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS barcode text CHECK (barcode IS NULL OR barcode <> '');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_barcode ON products(barcode) WHERE barcode IS NOT NULL;
@@ -0,0 +1,118 @@
+/*
+  # Bulk Product Import
+
+  ## Overview
+  Catalog onboarding imports a spreadsheet of products in one transaction. Rows are matched to
+  existing products by SKU: known SKUs are updated with the imported fields only, new SKUs are
+  created. Category names are resolved case-insensitively and can optionally be created.
+
+  ## Functions
+  - `import_products(p_rows, p_create_categories)` takes a JSON array of rows keyed by product
+    field (`name`, `sku`, `barcode`, `category`, `price`, `quantity`, `reorder_point`,
+    `reorder_quantity`, `max_level`, `description`) and returns `{created, updated}`. Fields that
+    are absent from a row are left unchanged on existing products. `quantity` is the opening stock
+    of new products and is ignored for existing ones, whose stock only moves through the ledger.
+
+  ## Security
+  - Active users can import products; creating missing categories requires an admin
+*/
+
+CREATE OR REPLACE FUNCTION import_products(
+  p_rows jsonb,
+  p_create_categories boolean DEFAULT false
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_row jsonb;
+  v_sku text;
+  v_category text;
+  v_category_id uuid;
+  v_product_id uuid;
+  v_created integer := 0;
+  v_updated integer := 0;
+BEGIN
+  PERFORM assert_active_user();
+
+  IF p_create_categories AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+    AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can create categories'
+      USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_rows, '[]'::jsonb))
+  LOOP
+    v_sku := NULLIF(trim(v_row->>'sku'), '');
+
+    IF v_sku IS NULL THEN
+      RAISE EXCEPTION 'Every imported row needs a SKU'
+        USING ERRCODE = '22023';
+    END IF;
+
+    v_category := NULLIF(trim(v_row->>'category'), '');
+    v_category_id := NULL;
+
+    IF v_category IS NOT NULL THEN
+      SELECT id INTO v_category_id FROM categories WHERE lower(name) = lower(v_category);
+
+      IF v_category_id IS NULL THEN
+        IF NOT p_create_categories THEN
+          RAISE EXCEPTION 'Unknown category: %', v_category
+            USING ERRCODE = '22023';
+        END IF;
+
+        INSERT INTO categories (name) VALUES (v_category) RETURNING id INTO v_category_id;
+      END IF;
+    END IF;
+
+    SELECT id INTO v_product_id FROM products WHERE sku = v_sku FOR UPDATE;
+
+    IF FOUND THEN
+      UPDATE products
+      SET name = COALESCE(NULLIF(trim(v_row->>'name'), ''), name),
+          barcode = CASE WHEN v_row ? 'barcode' THEN NULLIF(trim(v_row->>'barcode'), '') ELSE barcode END,
+          category_id = CASE WHEN v_row ? 'category' THEN v_category_id ELSE category_id END,
+          price = COALESCE((v_row->>'price')::numeric, price),
+          reorder_point = COALESCE((v_row->>'reorder_point')::integer, reorder_point),
+          reorder_quantity = COALESCE((v_row->>'reorder_quantity')::integer, reorder_quantity),
+          max_level = CASE WHEN v_row ? 'max_level' THEN (v_row->>'max_level')::integer ELSE max_level END,
+          description = COALESCE(v_row->>'description', description)
+      WHERE id = v_product_id;
+
+      v_updated := v_updated + 1;
+    ELSE
+      IF NULLIF(trim(v_row->>'name'), '') IS NULL THEN
+        RAISE EXCEPTION 'New product % needs a name', v_sku
+          USING ERRCODE = '22023';
+      END IF;
+
+      INSERT INTO products (
+        name, sku, barcode, category_id, price, quantity,
+        reorder_point, reorder_quantity, max_level, description
+      )
+      VALUES (
+        trim(v_row->>'name'),
+        v_sku,
+        NULLIF(trim(v_row->>'barcode'), ''),
+        v_category_id,
+        COALESCE((v_row->>'price')::numeric, 0),
+        COALESCE((v_row->>'quantity')::integer, 0),
+        COALESCE((v_row->>'reorder_point')::integer, 5),
+        COALESCE((v_row->>'reorder_quantity')::integer, 0),
+        (v_row->>'max_level')::integer,
+        COALESCE(v_row->>'description', '')
+      );
+
+      v_created := v_created + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION import_products(jsonb, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION import_products(jsonb, boolean) TO authenticated;
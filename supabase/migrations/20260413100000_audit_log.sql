@@ -0,0 +1,130 @@
+/*
+  # Audit Log
+
+  ## Overview
+  Product and category edits overwrite rows in place and role changes leave no trace of who made
+  them. Every insert, update and delete on `products`, `categories` and `profiles` is now recorded
+  by the database itself, with the acting user and the row before and after the change, so the
+  trail covers changes from any client or function.
+
+  Columns the stock ledger maintains on products (quantity, reservations, average cost and the
+  derived status) are left out of update entries; the ledger already records why they moved.
+
+  ## New Tables
+
+  ### `audit_log`
+  One row change
+  - `id` (uuid, primary key)
+  - `table_name` (text, 'products', 'categories' or 'profiles')
+  - `record_id` (uuid, id of the changed row)
+  - `action` (text, 'INSERT', 'UPDATE' or 'DELETE')
+  - `actor_id` (uuid, references profiles, null for changes made without a signed-in user)
+  - `old_values` (jsonb, the row before the change, null for inserts)
+  - `new_values` (jsonb, the row after the change, null for deletes)
+  - `changed_fields` (text[], columns an update changed)
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `audit_row_change()` trigger function: writes an audit entry for the changed row; trigger
+    arguments name columns whose changes alone are not audited
+
+  ## Security
+  - Only active admins can read the audit log; entries are only written by the trigger and cannot
+    be changed or removed
+*/
+
+-- Create audit_log table
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL CHECK (table_name IN ('products', 'categories', 'profiles')),
+  record_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  old_values jsonb,
+  new_values jsonb,
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON audit_log(table_name, record_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_id);
+
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_changed text[] := '{}';
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(array_agg(key ORDER BY key), '{}')
+    INTO v_changed
+    FROM jsonb_each(v_new)
+    WHERE value IS DISTINCT FROM v_old->key
+    AND NOT key = ANY (ARRAY['updated_at'] || TG_ARGV);
+
+    IF cardinality(v_changed) = 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (
+    table_name, record_id, action, actor_id, old_values, new_values, changed_fields
+  )
+  VALUES (
+    TG_TABLE_NAME,
+    (COALESCE(v_new, v_old)->>'id')::uuid,
+    TG_OP,
+    (SELECT id FROM profiles WHERE id = auth.uid()),
+    v_old,
+    v_new,
+    v_changed
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION audit_row_change() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS audit_products ON products;
+CREATE TRIGGER audit_products
+  AFTER INSERT OR UPDATE OR DELETE ON products
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change(
+    'quantity', 'reserved_quantity', 'available_quantity', 'average_cost', 'status'
+  );
+
+DROP TRIGGER IF EXISTS audit_categories ON categories;
+CREATE TRIGGER audit_categories
+  AFTER INSERT OR UPDATE OR DELETE ON categories
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS audit_profiles ON profiles;
+CREATE TRIGGER audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION audit_row_change();
+
+-- Enable Row Level Security
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for audit_log
+CREATE POLICY "Admins can view the audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+      AND profiles.is_active = true
+    )
+  );
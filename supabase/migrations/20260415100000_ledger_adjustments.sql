@@ -0,0 +1,415 @@
+/*
+  # Ledger-Only Quantities and Reason-Coded Adjustments
+
+  ## Overview
+  The initial quantity of a new product went straight into `product_stock`, and nothing stopped a
+  client from writing `products.quantity`, so the `stock_transactions` ledger no longer summed to
+  the on-hand figure. Every quantity change now goes through the ledger:
+  - the initial quantity of a new product is posted as an opening-balance adjustment
+  - `products.quantity` and `products.reserved_quantity` can no longer be written directly
+  - hand-recorded ADJUST movements need a reason code
+  A consistency check lists products whose quantity disagrees with their ledger, and an admin can
+  book the difference as an opening balance once it has been investigated.
+
+  ## Modified Tables
+
+  ### `stock_transactions`
+  - `reason` (text, why an adjustment was made: 'damaged', 'lost', 'found', 'correction' or
+    'expired' when recorded by hand, 'opening_balance' for initial stock and reconciliations,
+    'stock_count' for count variances). Required on ADJUST movements.
+
+  ## Views
+  - `stock_ledger_balances` net ledger movement per product and location (IN adds, OUT removes,
+    ADJUST is signed)
+  - `stock_ledger_discrepancies` one row per product whose quantity differs from the sum of its
+    ledger
+
+  ## Functions
+  - `apply_stock_movement(...)` takes an optional `p_reason`
+  - `record_stock_movement(...)` takes `p_reason`. ADJUST movements need one; damaged, lost and
+    expired remove stock, found adds it, correction goes either way.
+  - `approve_stock_count(...)` posts its adjustments with the 'stock_count' reason
+  - `seed_product_stock()` posts the initial quantity of a new product as an opening-balance
+    adjustment at the default location, costed at the product's average cost as before
+  - `guard_product_quantity()` trigger function: rejects direct writes to quantity columns
+  - `reconcile_stock_ledger(p_product_id)` admin only: books the gap between each location's stock
+    and its ledger as opening-balance entries without moving stock
+
+  ## Data
+  - Existing count adjustments get the 'stock_count' reason, any other adjustments 'correction'
+*/
+
+ALTER TABLE stock_transactions
+  ADD COLUMN IF NOT EXISTS reason text CHECK (
+    reason IS NULL
+    OR reason IN ('opening_balance', 'damaged', 'lost', 'found', 'correction', 'expired', 'stock_count')
+  );
+
+UPDATE stock_transactions
+SET reason = CASE WHEN stock_count_line_id IS NOT NULL THEN 'stock_count' ELSE 'correction' END
+WHERE type = 'ADJUST'
+AND reason IS NULL;
+
+ALTER TABLE stock_transactions DROP CONSTRAINT IF EXISTS stock_transactions_adjust_reason_check;
+ALTER TABLE stock_transactions
+  ADD CONSTRAINT stock_transactions_adjust_reason_check CHECK (type <> 'ADJUST' OR reason IS NOT NULL);
+
+-- apply_stock_movement records why a movement was made
+DROP FUNCTION IF EXISTS apply_stock_movement(uuid, uuid, text, integer, text, uuid, numeric, uuid, text, date, text[]);
+
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text,
+  p_transfer_id uuid DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL,
+  p_lot_id uuid DEFAULT NULL,
+  p_lot_number text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL,
+  p_serial_numbers text[] DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_location_id uuid;
+  v_current integer;
+  v_reserved integer;
+  v_change integer;
+  v_transaction_id uuid;
+BEGIN
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT', 'ADJUST') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 OR (p_type <> 'ADJUST' AND p_quantity < 0) THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_unit_cost < 0 THEN
+    RAISE EXCEPTION 'Unit cost cannot be negative'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the product first so concurrent movements at any location serialize on it
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity, reserved INTO v_current, v_reserved
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id
+  FOR UPDATE;
+
+  IF p_type = 'OUT' AND v_current - v_reserved < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object(
+              'available', GREATEST(v_current - v_reserved, 0),
+              'requested', p_quantity
+            )::text;
+  END IF;
+
+  -- Adjustments record what is physically there, so they may eat into reserved stock
+  IF p_type = 'ADJUST' AND v_current + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object('available', v_current, 'requested', -p_quantity)::text;
+  END IF;
+
+  v_change := CASE WHEN p_type = 'OUT' THEN -p_quantity ELSE p_quantity END;
+
+  INSERT INTO stock_transactions (
+    product_id, location_id, user_id, quantity, type, reason, notes, transfer_id
+  )
+  VALUES (
+    p_product_id, v_location_id, auth.uid(), p_quantity, p_type, p_reason, COALESCE(p_notes, ''),
+    p_transfer_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE product_stock
+  SET quantity = v_current + v_change
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id;
+
+  -- Transfers only move stock between locations; it keeps its cost
+  IF p_transfer_id IS NULL THEN
+    PERFORM apply_stock_cost(
+      p_product_id,
+      v_transaction_id,
+      CASE WHEN v_change > 0 THEN 'IN' ELSE 'OUT' END,
+      abs(v_change),
+      p_unit_cost
+    );
+  END IF;
+
+  PERFORM apply_lot_movement(v_transaction_id, p_lot_id, p_lot_number, p_expiry_date);
+  PERFORM apply_serial_movement(v_transaction_id, p_serial_numbers);
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_stock_movement(uuid, uuid, text, integer, text, uuid, numeric, uuid, text, date, text[], text) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS record_stock_movement(uuid, uuid, text, integer, text, numeric, uuid, text, date, text[]);
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text DEFAULT '',
+  p_unit_cost numeric DEFAULT NULL,
+  p_lot_id uuid DEFAULT NULL,
+  p_lot_number text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL,
+  p_serial_numbers text[] DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_track_serials boolean;
+  v_total integer;
+BEGIN
+  PERFORM assert_active_user();
+
+  IF p_type = 'ADJUST' THEN
+    IF p_reason IS NULL OR p_reason NOT IN ('damaged', 'lost', 'found', 'correction', 'expired') THEN
+      RAISE EXCEPTION 'Adjustments need a reason: damaged, lost, found, correction or expired'
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF (p_reason IN ('damaged', 'lost', 'expired') AND p_quantity > 0)
+    OR (p_reason = 'found' AND p_quantity < 0) THEN
+      RAISE EXCEPTION 'A % adjustment cannot % stock',
+        p_reason, CASE WHEN p_quantity > 0 THEN 'add' ELSE 'remove' END
+        USING ERRCODE = '22023';
+    END IF;
+  ELSIF p_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'Only adjustments take a reason'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_type = 'IN' THEN
+    PERFORM assert_lot_number(p_product_id, p_lot_number);
+  END IF;
+
+  SELECT track_serials INTO v_track_serials FROM products WHERE id = p_product_id;
+
+  IF p_serial_numbers IS NOT NULL AND NOT COALESCE(v_track_serials, false) THEN
+    RAISE EXCEPTION 'Product is not serialized'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Hand-recorded movements of serialized products always name their serials
+  IF v_track_serials AND p_type IN ('IN', 'OUT') THEN
+    p_serial_numbers := COALESCE(p_serial_numbers, '{}');
+  END IF;
+
+  PERFORM apply_stock_movement(
+    p_product_id, p_location_id, p_type, p_quantity, p_notes, NULL, p_unit_cost,
+    p_lot_id, p_lot_number, p_expiry_date, p_serial_numbers, p_reason
+  );
+
+  SELECT quantity INTO v_total FROM products WHERE id = p_product_id;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_stock_movement(uuid, uuid, text, integer, text, numeric, uuid, text, date, text[], text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_stock_movement(uuid, uuid, text, integer, text, numeric, uuid, text, date, text[], text) TO authenticated;
+
+-- Count variances are adjustments with their own reason
+CREATE OR REPLACE FUNCTION approve_stock_count(p_stock_count_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_count stock_counts%ROWTYPE;
+  v_line stock_count_lines%ROWTYPE;
+  v_transaction_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+    AND profiles.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can approve stock counts'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_stock_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_count.status <> 'review' THEN
+    RAISE EXCEPTION 'Cannot approve a % stock count', v_count.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM stock_count_lines
+    WHERE stock_count_id = p_stock_count_id
+    AND counted_quantity IS NOT NULL
+    AND counted_quantity <> system_quantity
+    ORDER BY product_id
+  LOOP
+    v_transaction_id := apply_stock_movement(
+      v_line.product_id,
+      v_count.location_id,
+      'ADJUST',
+      v_line.counted_quantity - v_line.system_quantity,
+      'Stock count ' || v_count.count_number,
+      p_reason => 'stock_count'
+    );
+
+    UPDATE stock_transactions SET stock_count_line_id = v_line.id WHERE id = v_transaction_id;
+  END LOOP;
+
+  UPDATE stock_counts
+  SET status = 'approved', approved_by = auth.uid(), approved_at = now()
+  WHERE id = p_stock_count_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The initial quantity of a new product is its opening balance in the ledger
+CREATE OR REPLACE FUNCTION seed_product_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.quantity > 0 THEN
+    PERFORM apply_stock_movement(
+      NEW.id, NULL, 'ADJUST', NEW.quantity, 'Opening balance', p_reason => 'opening_balance'
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Stock columns only change when product_stock does, i.e. from the sync trigger
+CREATE OR REPLACE FUNCTION guard_product_quantity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1
+  AND (
+    NEW.quantity IS DISTINCT FROM OLD.quantity
+    OR NEW.reserved_quantity IS DISTINCT FROM OLD.reserved_quantity
+  ) THEN
+    RAISE EXCEPTION 'Stock quantities change only through stock transactions'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_product_quantity ON products;
+CREATE TRIGGER guard_product_quantity
+  BEFORE UPDATE ON products
+  FOR EACH ROW EXECUTE FUNCTION guard_product_quantity();
+
+-- Net ledger movement per product and location
+CREATE OR REPLACE VIEW stock_ledger_balances
+WITH (security_invoker = true) AS
+SELECT
+  product_id,
+  location_id,
+  SUM(CASE WHEN type = 'OUT' THEN -quantity ELSE quantity END)::integer AS quantity
+FROM stock_transactions
+GROUP BY product_id, location_id;
+
+-- Products whose quantity disagrees with their ledger
+CREATE OR REPLACE VIEW stock_ledger_discrepancies
+WITH (security_invoker = true) AS
+SELECT
+  products.id AS product_id,
+  products.name,
+  products.sku,
+  products.quantity,
+  COALESCE(ledger.quantity, 0)::integer AS ledger_quantity,
+  (products.quantity - COALESCE(ledger.quantity, 0))::integer AS difference
+FROM products
+LEFT JOIN (
+  SELECT product_id, SUM(quantity) AS quantity
+  FROM stock_ledger_balances
+  GROUP BY product_id
+) AS ledger ON ledger.product_id = products.id
+WHERE products.quantity <> COALESCE(ledger.quantity, 0);
+
+GRANT SELECT ON stock_ledger_balances TO authenticated;
+GRANT SELECT ON stock_ledger_discrepancies TO authenticated;
+
+-- Book each location's unexplained stock as an opening balance; stock and cost stay as they are
+CREATE OR REPLACE FUNCTION reconcile_stock_ledger(p_product_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_gap record;
+  v_entries integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+    AND profiles.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reconcile the stock ledger'
+      USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_gap IN
+    SELECT
+      COALESCE(product_stock.location_id, stock_ledger_balances.location_id) AS location_id,
+      COALESCE(product_stock.quantity, 0) - COALESCE(stock_ledger_balances.quantity, 0) AS difference
+    FROM product_stock
+    FULL JOIN stock_ledger_balances
+      ON stock_ledger_balances.product_id = product_stock.product_id
+      AND stock_ledger_balances.location_id = product_stock.location_id
+    WHERE COALESCE(product_stock.product_id, stock_ledger_balances.product_id) = p_product_id
+    AND COALESCE(product_stock.quantity, 0) <> COALESCE(stock_ledger_balances.quantity, 0)
+  LOOP
+    INSERT INTO stock_transactions (product_id, location_id, user_id, quantity, type, reason, notes)
+    VALUES (
+      p_product_id, v_gap.location_id, auth.uid(), v_gap.difference, 'ADJUST', 'opening_balance',
+      'Ledger reconciliation'
+    );
+
+    v_entries := v_entries + 1;
+  END LOOP;
+
+  RETURN v_entries;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION reconcile_stock_ledger(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reconcile_stock_ledger(uuid) TO authenticated;
@@ -0,0 +1,338 @@
+/*
+  # Voiding Stock Transactions
+
+  ## Overview
+  A mistyped quantity in a hand-recorded movement could not be corrected: the ledger has no edit or
+  delete, and a correcting movement by hand is not tied to the mistake. An admin can now void a
+  movement with a reason. Voiding posts compensating movements linked to the original and marks
+  the original as voided, all in one transaction, so stock, lots, serials and the ledger stay in
+  step.
+
+  Compensating movements take back exactly what the original moved: a receipt's own lot, serials
+  and cost layer, or the lots and serials an issue drew from. Movements posted by transfers,
+  purchase orders, sales orders, stock counts and opening balances are voided through those
+  instead, so they cannot be voided here.
+
+  ## Modified Tables
+
+  ### `stock_transactions`
+  - `reverses_transaction_id` (uuid, references stock_transactions, set on compensating movements)
+  - `voided_at` (timestamptz, set when the movement was voided)
+  - `voided_by` (uuid, references auth.users)
+  - `void_reason` (text)
+
+  ## Functions
+  - `apply_stock_movement(...)` takes an optional `p_reverses_transaction_id`. A compensating issue
+    consumes the original receipt's cost layer and takes its cost back out of the average cost.
+  - `void_stock_transaction(p_transaction_id, p_reason)` admin only: posts the compensating
+    movements and marks the original as voided
+
+  ## Security
+  - Voiding requires an active admin
+*/
+
+ALTER TABLE stock_transactions
+  ADD COLUMN IF NOT EXISTS reverses_transaction_id uuid REFERENCES stock_transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS voided_at timestamptz,
+  ADD COLUMN IF NOT EXISTS voided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS void_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_stock_transactions_reverses
+  ON stock_transactions(reverses_transaction_id) WHERE reverses_transaction_id IS NOT NULL;
+
+-- Internal: take a voided receipt's units out of its own cost layer; false if it was consumed
+CREATE OR REPLACE FUNCTION reverse_stock_cost(
+  p_product_id uuid,
+  p_original_id uuid,
+  p_quantity integer
+)
+RETURNS boolean AS $$
+DECLARE
+  v_layer cost_layers%ROWTYPE;
+  v_average numeric;
+  v_on_hand integer;
+BEGIN
+  SELECT * INTO v_layer
+  FROM cost_layers
+  WHERE transaction_id = p_original_id
+  AND quantity_remaining >= p_quantity
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT average_cost INTO v_average FROM products WHERE id = p_product_id;
+
+  SELECT COALESCE(SUM(quantity_remaining), 0) INTO v_on_hand
+  FROM cost_layers
+  WHERE product_id = p_product_id;
+
+  UPDATE cost_layers
+  SET quantity_remaining = quantity_remaining - p_quantity
+  WHERE id = v_layer.id;
+
+  IF v_on_hand > p_quantity THEN
+    UPDATE products
+    SET average_cost = GREATEST(
+      round((v_on_hand * v_average - p_quantity * v_layer.unit_cost) / (v_on_hand - p_quantity), 4),
+      0
+    )
+    WHERE id = p_product_id;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION reverse_stock_cost(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- apply_stock_movement links compensating movements to what they reverse
+DROP FUNCTION IF EXISTS apply_stock_movement(uuid, uuid, text, integer, text, uuid, numeric, uuid, text, date, text[], text);
+
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_product_id uuid,
+  p_location_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_notes text,
+  p_transfer_id uuid DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL,
+  p_lot_id uuid DEFAULT NULL,
+  p_lot_number text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL,
+  p_serial_numbers text[] DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_reverses_transaction_id uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_location_id uuid;
+  v_current integer;
+  v_reserved integer;
+  v_change integer;
+  v_transaction_id uuid;
+BEGIN
+  IF p_type IS NULL OR p_type NOT IN ('IN', 'OUT', 'ADJUST') THEN
+    RAISE EXCEPTION 'Invalid transaction type: %', p_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 OR (p_type <> 'ADJUST' AND p_quantity < 0) THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_unit_cost < 0 THEN
+    RAISE EXCEPTION 'Unit cost cannot be negative'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_location_id
+  FROM locations
+  WHERE is_active
+  AND (id = p_location_id OR (p_location_id IS NULL AND is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'Location not found or inactive'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the product first so concurrent movements at any location serialize on it
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO product_stock (product_id, location_id, quantity)
+  VALUES (p_product_id, v_location_id, 0)
+  ON CONFLICT (product_id, location_id) DO NOTHING;
+
+  SELECT quantity, reserved INTO v_current, v_reserved
+  FROM product_stock
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id
+  FOR UPDATE;
+
+  IF p_type = 'OUT' AND v_current - v_reserved < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object(
+              'available', GREATEST(v_current - v_reserved, 0),
+              'requested', p_quantity
+            )::text;
+  END IF;
+
+  -- Adjustments record what is physically there, so they may eat into reserved stock
+  IF p_type = 'ADJUST' AND v_current + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock quantity'
+      USING ERRCODE = 'IV001',
+            DETAIL = json_build_object('available', v_current, 'requested', -p_quantity)::text;
+  END IF;
+
+  v_change := CASE WHEN p_type = 'OUT' THEN -p_quantity ELSE p_quantity END;
+
+  INSERT INTO stock_transactions (
+    product_id, location_id, user_id, quantity, type, reason, notes, transfer_id,
+    reverses_transaction_id
+  )
+  VALUES (
+    p_product_id, v_location_id, auth.uid(), p_quantity, p_type, p_reason, COALESCE(p_notes, ''),
+    p_transfer_id, p_reverses_transaction_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE product_stock
+  SET quantity = v_current + v_change
+  WHERE product_id = p_product_id
+  AND location_id = v_location_id;
+
+  -- Transfers only move stock between locations; it keeps its cost
+  IF p_transfer_id IS NULL THEN
+    IF v_change > 0
+    OR p_reverses_transaction_id IS NULL
+    OR NOT reverse_stock_cost(p_product_id, p_reverses_transaction_id, -v_change) THEN
+      PERFORM apply_stock_cost(
+        p_product_id,
+        v_transaction_id,
+        CASE WHEN v_change > 0 THEN 'IN' ELSE 'OUT' END,
+        abs(v_change),
+        p_unit_cost
+      );
+    END IF;
+  END IF;
+
+  PERFORM apply_lot_movement(v_transaction_id, p_lot_id, p_lot_number, p_expiry_date);
+  PERFORM apply_serial_movement(v_transaction_id, p_serial_numbers);
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_stock_movement(uuid, uuid, text, integer, text, uuid, numeric, uuid, text, date, text[], text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION void_stock_transaction(p_transaction_id uuid, p_reason text)
+RETURNS void AS $$
+DECLARE
+  v_original stock_transactions%ROWTYPE;
+  v_type text;
+  v_reason text;
+  v_notes text;
+  v_change integer;
+  v_remaining integer;
+  v_lot_id uuid;
+  v_lot record;
+  v_serials text[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+    AND profiles.is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Only admins can void stock transactions'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to void a transaction'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_original FROM stock_transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_original.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Transaction is already voided'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF v_original.reverses_transaction_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A reversal cannot be voided'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF v_original.transfer_id IS NOT NULL
+  OR v_original.purchase_order_line_id IS NOT NULL
+  OR v_original.sales_order_line_id IS NOT NULL
+  OR v_original.stock_count_line_id IS NOT NULL
+  OR v_original.reason IN ('opening_balance', 'stock_count') THEN
+    RAISE EXCEPTION 'Only hand-recorded movements can be voided'
+      USING ERRCODE = '22023';
+  END IF;
+
+  v_type := CASE v_original.type WHEN 'IN' THEN 'OUT' WHEN 'OUT' THEN 'IN' ELSE 'ADJUST' END;
+  v_reason := CASE WHEN v_type = 'ADJUST' THEN 'correction' END;
+  v_notes := 'Void: ' || trim(p_reason);
+  v_change := CASE WHEN v_original.type = 'OUT' THEN -v_original.quantity ELSE v_original.quantity END;
+
+  SELECT array_agg(serial_numbers.serial_number ORDER BY serial_numbers.serial_number)
+  INTO v_serials
+  FROM stock_transaction_serials
+  JOIN serial_numbers ON serial_numbers.id = stock_transaction_serials.serial_id
+  WHERE stock_transaction_serials.transaction_id = p_transaction_id;
+
+  IF v_change > 0 THEN
+    -- Take back the very units that came in
+    SELECT lot_id INTO v_lot_id
+    FROM stock_transaction_lots
+    WHERE transaction_id = p_transaction_id;
+
+    PERFORM apply_stock_movement(
+      v_original.product_id, v_original.location_id, v_type,
+      CASE WHEN v_type = 'ADJUST' THEN -v_change ELSE v_change END,
+      v_notes, NULL, NULL, v_lot_id, NULL, NULL, v_serials, v_reason, p_transaction_id
+    );
+  ELSE
+    IF v_serials IS NOT NULL
+    AND EXISTS (SELECT 1 FROM stock_transaction_lots WHERE transaction_id = p_transaction_id) THEN
+      RAISE EXCEPTION 'Movements that drew on both lots and serial numbers cannot be voided'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Return the units to the lots they came from, serials first among untracked stock
+    v_remaining := -v_change;
+
+    FOR v_lot IN
+      SELECT stock_lots.lot_number, stock_lots.expiry_date, stock_transaction_lots.quantity
+      FROM stock_transaction_lots
+      JOIN stock_lots ON stock_lots.id = stock_transaction_lots.lot_id
+      WHERE stock_transaction_lots.transaction_id = p_transaction_id
+    LOOP
+      PERFORM apply_stock_movement(
+        v_original.product_id, v_original.location_id, v_type, v_lot.quantity, v_notes,
+        NULL, NULL, NULL, v_lot.lot_number, v_lot.expiry_date, NULL, v_reason, p_transaction_id
+      );
+      v_remaining := v_remaining - v_lot.quantity;
+    END LOOP;
+
+    IF v_serials IS NOT NULL THEN
+      PERFORM apply_stock_movement(
+        v_original.product_id, v_original.location_id, v_type, cardinality(v_serials), v_notes,
+        NULL, NULL, NULL, NULL, NULL, v_serials, v_reason, p_transaction_id
+      );
+      v_remaining := v_remaining - cardinality(v_serials);
+    END IF;
+
+    IF v_remaining > 0 THEN
+      PERFORM apply_stock_movement(
+        v_original.product_id, v_original.location_id, v_type, v_remaining, v_notes,
+        NULL, NULL, NULL, NULL, NULL, NULL, v_reason, p_transaction_id
+      );
+    END IF;
+  END IF;
+
+  UPDATE stock_transactions
+  SET voided_at = now(), voided_by = auth.uid(), void_reason = trim(p_reason)
+  WHERE id = p_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION void_stock_transaction(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION void_stock_transaction(uuid, text) TO authenticated;
@@ -0,0 +1,29 @@
+/*
+  # Indexes for Paged Lists
+
+  ## Overview
+  The Products and Stock Transactions pages now page, sort and filter on the server instead of
+  loading every row. Name and SKU search is a substring match (`ilike '%term%'`), which a btree
+  cannot serve, so both columns get trigram indexes. The remaining indexes back the sortable
+  columns. Barcode matches are exact and already use the unique barcode index.
+
+  ## Extensions
+  - `pg_trgm` in the `extensions` schema
+
+  ## Indexes
+  - `products`: trigram on `name` and `sku`; btree on `name`, `created_at`, `price`, `available_quantity`
+  - `stock_transactions`: `(product_id, created_at)` for a product's history
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm ON products USING gin (name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_sku_trgm ON products USING gin (sku extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_products_name ON products(name);
+CREATE INDEX IF NOT EXISTS idx_products_created ON products(created_at);
+CREATE INDEX IF NOT EXISTS idx_products_price ON products(price);
+CREATE INDEX IF NOT EXISTS idx_products_available ON products(available_quantity);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transactions_product_created
+  ON stock_transactions(product_id, created_at);
@@ -0,0 +1,80 @@
+/*
+  # Transaction History Totals and Running Balances
+
+  ## Overview
+  The Stock Transactions page can be filtered by date range, product, category, user, type and
+  notes. It shows the units moved in and out over the filtered period and, when filtered to a
+  single product, the product's balance after each movement.
+
+  ## Views
+  - `stock_transaction_balances`: every transaction with the product's total quantity across
+    locations after it, in ledger order (`created_at`, then `id`). Filtering on `product_id` is
+    pushed below the window, so only that product's history is read.
+
+  ## Functions
+  - `stock_transaction_totals(...)` units in, units out and net change for the movements matching
+    the page's filters. Transfers between locations leave the total unchanged and are not counted.
+    `p_search` and `p_notes` are matched as substrings and must already be escaped for LIKE.
+
+  ## Security
+  - Both run with the caller's rights, so the existing policies on `stock_transactions` apply
+*/
+
+CREATE OR REPLACE VIEW stock_transaction_balances
+WITH (security_invoker = true) AS
+SELECT
+  id,
+  product_id,
+  SUM(CASE WHEN type = 'OUT' THEN -quantity ELSE quantity END) OVER (
+    PARTITION BY product_id
+    ORDER BY created_at, id
+  )::integer AS balance
+FROM stock_transactions;
+
+GRANT SELECT ON stock_transaction_balances TO authenticated;
+
+CREATE OR REPLACE FUNCTION stock_transaction_totals(
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_product_id uuid DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL,
+  p_type text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_in bigint;
+  v_out bigint;
+BEGIN
+  SELECT
+    COALESCE(SUM(movements.change) FILTER (WHERE movements.change > 0), 0),
+    COALESCE(-SUM(movements.change) FILTER (WHERE movements.change < 0), 0)
+  INTO v_in, v_out
+  FROM (
+    SELECT CASE WHEN stock_transactions.type = 'OUT' THEN -stock_transactions.quantity
+                ELSE stock_transactions.quantity END AS change
+    FROM stock_transactions
+    JOIN products ON products.id = stock_transactions.product_id
+    WHERE stock_transactions.transfer_id IS NULL
+    AND (p_from IS NULL OR stock_transactions.created_at >= p_from)
+    AND (p_to IS NULL OR stock_transactions.created_at < p_to)
+    AND (p_product_id IS NULL OR stock_transactions.product_id = p_product_id)
+    AND (p_category_id IS NULL OR products.category_id = p_category_id)
+    AND (p_user_id IS NULL OR stock_transactions.user_id = p_user_id)
+    AND (p_type IS NULL OR stock_transactions.type = p_type)
+    AND (
+      p_search IS NULL
+      OR products.name ILIKE '%' || p_search || '%'
+      OR products.sku ILIKE '%' || p_search || '%'
+    )
+    AND (p_notes IS NULL OR stock_transactions.notes ILIKE '%' || p_notes || '%')
+  ) AS movements;
+
+  RETURN jsonb_build_object('stock_in', v_in, 'stock_out', v_out, 'net', v_in - v_out);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION stock_transaction_totals(timestamptz, timestamptz, uuid, uuid, uuid, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION stock_transaction_totals(timestamptz, timestamptz, uuid, uuid, uuid, text, text, text) TO authenticated;
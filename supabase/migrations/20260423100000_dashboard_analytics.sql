@@ -0,0 +1,202 @@
+/*
+  # Dashboard Analytics
+
+  ## Overview
+  The Dashboard charts stock movement over a chosen date range. Each chart is one aggregate
+  query, so the browser receives a handful of rows per chart rather than the transactions behind
+  them. All functions take the range as `[p_from, p_to)` and an optional location; the bucketed
+  ones group by day, week or month in the caller's time zone.
+
+  Transfers between locations are left out of movement volumes: they neither bring stock in nor
+  send it out. They do count towards the stock value of a single location.
+
+  Voided movements and the reversals posted for them are left out of movement volumes too, so
+  a mistyped entry does not count as activity. Both stay in the stock value, where they cancel.
+
+  ## Functions
+  - `stock_movement_volume(p_from, p_to, p_bucket, p_location_id, p_time_zone)` units in and out
+    per bucket, with empty buckets included
+  - `top_moving_products(p_from, p_to, p_limit, p_location_id)` products with the most units
+    moved in or out
+  - `top_moving_categories(p_from, p_to, p_limit, p_location_id)` the same per category, with
+    uncategorised products grouped together
+  - `stock_value_trend(p_from, p_to, p_bucket, p_location_id, p_time_zone)` value on hand at the
+    end of each bucket. Quantities are replayed from the ledger and valued at each product's
+    current average cost, since past costs are not kept per movement.
+
+  ## Security
+  - All run with the caller's rights, so the existing policies on the underlying tables apply
+*/
+
+CREATE OR REPLACE FUNCTION stock_movement_volume(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket text DEFAULT 'day',
+  p_location_id uuid DEFAULT NULL,
+  p_time_zone text DEFAULT 'UTC'
+)
+RETURNS TABLE (bucket date, stock_in bigint, stock_out bigint) AS $$
+BEGIN
+  IF p_bucket IS NULL OR p_bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Invalid bucket: %', p_bucket
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH buckets AS (
+    SELECT generate_series(
+      date_trunc(p_bucket, p_from AT TIME ZONE p_time_zone),
+      date_trunc(p_bucket, (p_to - interval '1 microsecond') AT TIME ZONE p_time_zone),
+      ('1 ' || p_bucket)::interval
+    ) AS bucket_start
+  ),
+  movements AS (
+    SELECT
+      date_trunc(p_bucket, t.created_at AT TIME ZONE p_time_zone) AS bucket_start,
+      CASE WHEN t.type = 'OUT' THEN -t.quantity ELSE t.quantity END AS change
+    FROM stock_transactions t
+    WHERE t.transfer_id IS NULL
+    AND t.voided_at IS NULL
+    AND t.reverses_transaction_id IS NULL
+    AND t.created_at >= p_from
+    AND t.created_at < p_to
+    AND (p_location_id IS NULL OR t.location_id = p_location_id)
+  )
+  SELECT
+    buckets.bucket_start::date,
+    COALESCE(SUM(movements.change) FILTER (WHERE movements.change > 0), 0)::bigint,
+    COALESCE(-SUM(movements.change) FILTER (WHERE movements.change < 0), 0)::bigint
+  FROM buckets
+  LEFT JOIN movements ON movements.bucket_start = buckets.bucket_start
+  GROUP BY buckets.bucket_start
+  ORDER BY buckets.bucket_start;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION top_moving_products(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_limit integer DEFAULT 10,
+  p_location_id uuid DEFAULT NULL
+)
+RETURNS TABLE (product_id uuid, name text, sku text, stock_in bigint, stock_out bigint) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.sku,
+    COALESCE(SUM(m.change) FILTER (WHERE m.change > 0), 0)::bigint,
+    COALESCE(-SUM(m.change) FILTER (WHERE m.change < 0), 0)::bigint
+  FROM (
+    SELECT t.product_id, CASE WHEN t.type = 'OUT' THEN -t.quantity ELSE t.quantity END AS change
+    FROM stock_transactions t
+    WHERE t.transfer_id IS NULL
+    AND t.voided_at IS NULL
+    AND t.reverses_transaction_id IS NULL
+    AND t.created_at >= p_from
+    AND t.created_at < p_to
+    AND (p_location_id IS NULL OR t.location_id = p_location_id)
+  ) AS m
+  JOIN products p ON p.id = m.product_id
+  GROUP BY p.id
+  ORDER BY SUM(abs(m.change)) DESC, p.name
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION top_moving_categories(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_limit integer DEFAULT 10,
+  p_location_id uuid DEFAULT NULL
+)
+RETURNS TABLE (category_id uuid, name text, stock_in bigint, stock_out bigint) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    COALESCE(c.name, 'Uncategorized'),
+    COALESCE(SUM(m.change) FILTER (WHERE m.change > 0), 0)::bigint,
+    COALESCE(-SUM(m.change) FILTER (WHERE m.change < 0), 0)::bigint
+  FROM (
+    SELECT t.product_id, CASE WHEN t.type = 'OUT' THEN -t.quantity ELSE t.quantity END AS change
+    FROM stock_transactions t
+    WHERE t.transfer_id IS NULL
+    AND t.voided_at IS NULL
+    AND t.reverses_transaction_id IS NULL
+    AND t.created_at >= p_from
+    AND t.created_at < p_to
+    AND (p_location_id IS NULL OR t.location_id = p_location_id)
+  ) AS m
+  JOIN products p ON p.id = m.product_id
+  LEFT JOIN categories c ON c.id = p.category_id
+  GROUP BY c.id, c.name
+  ORDER BY SUM(abs(m.change)) DESC, c.name
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION stock_value_trend(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket text DEFAULT 'day',
+  p_location_id uuid DEFAULT NULL,
+  p_time_zone text DEFAULT 'UTC'
+)
+RETURNS TABLE (bucket date, value numeric) AS $$
+BEGIN
+  IF p_bucket IS NULL OR p_bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Invalid bucket: %', p_bucket
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH buckets AS (
+    SELECT generate_series(
+      date_trunc(p_bucket, p_from AT TIME ZONE p_time_zone),
+      date_trunc(p_bucket, (p_to - interval '1 microsecond') AT TIME ZONE p_time_zone),
+      ('1 ' || p_bucket)::interval
+    ) AS bucket_start
+  ),
+  movements AS (
+    SELECT
+      date_trunc(p_bucket, t.created_at AT TIME ZONE p_time_zone) AS bucket_start,
+      CASE WHEN t.type = 'OUT' THEN -t.quantity ELSE t.quantity END * p.average_cost AS value_change
+    FROM stock_transactions t
+    JOIN products p ON p.id = t.product_id
+    WHERE t.created_at < p_to
+    AND (p_location_id IS NULL OR t.location_id = p_location_id)
+  ),
+  opening AS (
+    SELECT COALESCE(SUM(movements.value_change), 0) AS value
+    FROM movements
+    WHERE movements.bucket_start < (SELECT MIN(buckets.bucket_start) FROM buckets)
+  ),
+  per_bucket AS (
+    SELECT buckets.bucket_start, COALESCE(SUM(movements.value_change), 0) AS value_change
+    FROM buckets
+    LEFT JOIN movements ON movements.bucket_start = buckets.bucket_start
+    GROUP BY buckets.bucket_start
+  )
+  SELECT
+    per_bucket.bucket_start::date,
+    round(
+      opening.value + SUM(per_bucket.value_change) OVER (ORDER BY per_bucket.bucket_start),
+      2
+    )
+  FROM per_bucket
+  CROSS JOIN opening
+  ORDER BY per_bucket.bucket_start;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION stock_movement_volume(timestamptz, timestamptz, text, uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION top_moving_products(timestamptz, timestamptz, integer, uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION top_moving_categories(timestamptz, timestamptz, integer, uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION stock_value_trend(timestamptz, timestamptz, text, uuid, text) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION stock_movement_volume(timestamptz, timestamptz, text, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION top_moving_products(timestamptz, timestamptz, integer, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION top_moving_categories(timestamptz, timestamptz, integer, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION stock_value_trend(timestamptz, timestamptz, text, uuid, text) TO authenticated;
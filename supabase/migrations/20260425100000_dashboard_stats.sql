@@ -0,0 +1,90 @@
+/*
+  # Dashboard Stats
+
+  ## Overview
+  The Dashboard used to download the status of every product and the id of every category to
+  count them in the browser. The counts and totals are now one aggregate query that returns a
+  single row, however large the catalogue.
+
+  ## Functions
+  - `dashboard_stats(p_location_id, p_expiry_cutoff)` returns the Dashboard figures as JSON:
+    - `totalProducts`, `lowStockCount`, `outOfStockCount`, `overstockCount`
+    - `totalCategories`
+    - `totalUnits` (units on hand)
+    - `totalValue` (units on hand at each product's average cost)
+    - `expiringLotsCount` (lots with stock left expiring on or before `p_expiry_cutoff`,
+      expired ones included; 0 when no cutoff is given)
+
+    Every product is counted. Without a location its total quantity is used; with one, the
+    quantity held there, or 0 where it has never been stocked. Either is classified with the
+    rule behind `products.status`.
+
+  ## Security
+  - Runs with the caller's rights, so the existing policies on the underlying tables apply
+*/
+
+CREATE OR REPLACE FUNCTION dashboard_stats(
+  p_location_id uuid DEFAULT NULL,
+  p_expiry_cutoff date DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_products jsonb;
+  v_total_value numeric;
+BEGIN
+  SELECT
+    jsonb_build_object(
+      'totalProducts', COUNT(*),
+      'lowStockCount', COUNT(*) FILTER (WHERE stock.status = 'low_stock'),
+      'outOfStockCount', COUNT(*) FILTER (WHERE stock.status = 'out_of_stock'),
+      'overstockCount', COUNT(*) FILTER (WHERE stock.status = 'overstock'),
+      'totalUnits', COALESCE(SUM(stock.quantity), 0)
+    ),
+    COALESCE(SUM(stock.quantity * stock.average_cost), 0)
+  INTO v_products, v_total_value
+  FROM (
+    SELECT
+      levels.quantity,
+      levels.average_cost,
+      -- Same rule as the generated products.status column
+      CASE
+        WHEN levels.quantity = 0 THEN 'out_of_stock'
+        WHEN levels.quantity <= levels.reorder_point THEN 'low_stock'
+        WHEN levels.max_level IS NOT NULL AND levels.quantity > levels.max_level THEN 'overstock'
+        ELSE 'in_stock'
+      END AS status
+    FROM (
+      SELECT
+        CASE
+          WHEN p_location_id IS NULL THEN products.quantity
+          ELSE COALESCE(product_stock.quantity, 0)
+        END AS quantity,
+        products.reorder_point,
+        products.max_level,
+        products.average_cost
+      FROM products
+      LEFT JOIN product_stock
+        ON product_stock.product_id = products.id
+        AND product_stock.location_id = p_location_id
+    ) AS levels
+  ) AS stock;
+
+  RETURN v_products || jsonb_build_object(
+    'totalCategories', (SELECT COUNT(*) FROM categories),
+    'totalValue', round(v_total_value, 2),
+    'expiringLotsCount', CASE
+      WHEN p_expiry_cutoff IS NULL THEN 0
+      ELSE (
+        SELECT COUNT(*)
+        FROM stock_lots
+        WHERE stock_lots.quantity > 0
+        AND stock_lots.expiry_date <= p_expiry_cutoff
+        AND (p_location_id IS NULL OR stock_lots.location_id = p_location_id)
+      )
+    END
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION dashboard_stats(uuid, date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION dashboard_stats(uuid, date) TO authenticated;